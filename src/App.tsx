@@ -1,22 +1,92 @@
 import { useState, useEffect, useMemo, Fragment, useRef } from "react";
-import { Square, Color } from "chess.js/src/chess";
-import FusionBoard from "./FusionBoard";
+import { Square, Color, PieceSymbol, SQUARES } from "chess.js/src/chess";
+import FusionBoard, { Attacker, GameResult, chess960Position } from "./FusionBoard";
 import { Chessboard } from "react-chessboard";
-import Stockfish from "./Stockfish";
+import Stockfish, { EngineLine } from "./Stockfish";
+import BoardEditor from "./BoardEditor";
+import EngineSettings, { loadSettings, saveSettings } from "./EngineSettings";
+import { findComputerMove, Strength, STRENGTHS } from "./Computer";
 import "./App.css";
 
+// Alert shown for each way a game can end, given the winning side
+const RESULT_MESSAGES: Record<GameResult["reason"], (winner: string) => string> = {
+    checkmate: () => "CHECKMATE",
+    stalemate: () => "STALEMATE",
+    repetition: () => "DRAW BY THREEFOLD REPETITION",
+    insufficient: () => "DRAW BY INSUFFICIENT MATERIAL",
+    "fifty-move": () => "DRAW BY 50 MOVE RULE",
+    resign: (winner) => `${winner} WINS BY RESIGNATION`,
+    timeout: (winner) => `${winner} WINS ON TIME`,
+};
+
+function describeResult(result: GameResult): string {
+    return RESULT_MESSAGES[result.reason](result.winner === "w" ? "WHITE" : "BLACK");
+}
+
+const PIECE_NAMES: Record<PieceSymbol, string> = {
+    p: "pawn",
+    n: "knight",
+    b: "bishop",
+    r: "rook",
+    q: "queen",
+    k: "king",
+};
+
+// Name an attacking piece, and the fused power or king fusion it attacks through
+function describeAttacker({ square, color, piece, power, source }: Attacker): string {
+    const name = `${color === "w" ? "white" : "black"} ${PIECE_NAMES[piece]} on ${square}`;
+    if (source === "primary") return name;
+    return `${name} (${source === "king-fusion" ? "king fusion" : "fused"} ${PIECE_NAMES[power]})`;
+}
+
+// Show each fused power beside the piece carrying it, including the power of a fused king
+function fusedStyles(game: FusionBoard): { [key: string]: object } {
+    const styles: { [key: string]: object } = {};
+    for (const square of SQUARES) {
+        const fused = game.getFusedPiece(square);
+        if (!fused) continue;
+        styles[square] = {
+            backgroundImage: `url(/assets/pieces/${game.get(square).color}${fused.toUpperCase()}.png)`,
+            backgroundSize: "contain",
+            backgroundRepeat: "no-repeat",
+            backgroundPosition: "left 25px center",
+        };
+    }
+    return styles;
+}
+
 function App() {
     const [game] = useState(new FusionBoard());
     const [isClicked, setIsClicked] = useState<Square | null>(null);
     const [fen, setFen] = useState(game.positions[0]);
     const [isGameStarted, setIsGameStarted] = useState<boolean>(false);
     const [isStockfishOn, setIsStockfishOn] = useState<boolean>(true);
+    // Analyse with the native Fusion engine rather than Stockfish
+    const [isNativeEngine, setIsNativeEngine] = useState<boolean>(false);
+    const [engineSettings, setEngineSettings] = useState(loadSettings);
+    const [showSettings, setShowSettings] = useState<boolean>(false);
+    const engineName = isNativeEngine ? "native" : "stockfish";
+    // The computer opponent's side, strength and thinking delay in milliseconds, or null for two players
+    const [computer, setComputer] = useState<{ color: Color; strength: Strength; delay: number } | null>(null);
+    const [isThinking, setIsThinking] = useState<boolean>(false);
+    const [isEditing, setIsEditing] = useState<boolean>(false);
+    const [showAttacks, setShowAttacks] = useState<boolean>(false);
+    const [showArrows, setShowArrows] = useState<boolean>(true);
+    const [engineLines, setEngineLines] = useState<EngineLine[]>([]);
+    const [attackInfo, setAttackInfo] = useState("");
     const [sounds, setSounds] = useState<HTMLAudioElement[]>([]);
     const [squareAttributes, setSquareAttributes] = useState<{ [key: string]: object }>({});
     const [rightClicked, setRightClicked] = useState<{ [key: string]: object | undefined }>({});
     const [fusedDisplay, setFusedDisplay] = useState<{ [key: string]: object | undefined }>({});
     const [msgAlert, setMsgAlert] = useState("");
-    const timeoutRef = useRef<number | null>(null);
+    const [pendingPromotion, setPendingPromotion] = useState<{
+        from: Square;
+        to: Square;
+        choices: PieceSymbol[];
+    } | null>(null);
+    // The history handlers are bound once for the arrow keys, so they read the opponent through a ref
+    const computerRef = useRef(computer);
+    computerRef.current = computer;
     const [boardWidth, setBoardWidth] = useState<number>(
         Math.max(400, Math.min(document.documentElement.clientHeight, document.documentElement.clientWidth) - 15)
     );
@@ -74,26 +144,54 @@ function App() {
 
     function reset() {
         game.reset();
+        resetView();
+    }
+
+    // Return the controls to the start of a game, for a board that has just been reset or loaded
+    function resetView() {
         setFen(game.fen());
         setIsClicked(null);
         setSquareAttributes({});
         setIsGameStarted(false);
-        setFusedDisplay({});
+        setPendingPromotion(null);
     }
 
     function importGame() {
-        // Prompt user for custom Fusion Chess export string from exportGame()
-        const e_string = prompt("Enter valid Fusion Chess export string: ");
+        // Prompt user for custom Fusion Chess export string from exportGame(), or a whole game from exportJson()
+        const e_string = prompt("Enter valid Fusion Chess export string or JSON: ");
         try {
             if (!e_string) return;
+            // The board is left as it was if the game cannot be loaded, so only the view is reset afterwards
+            game.fromJSON(e_string);
+            resetView();
+        } catch (err) {
+            alert(err);
+        }
+    }
+
+    function newGameFromPosition() {
+        // Start a fresh game from an export string or FEN, where non-standard castling rights switch to Chess960
+        const start = prompt("Enter a Fusion Chess export string or FEN to start from: ");
+        if (!start) return;
+        newGame(start, false);
+    }
+
+    function newGame(start: string, chess960: boolean) {
+        try {
             reset();
-            game.import(e_string);
+            game.newGame(start, chess960);
             setFen(game.fen());
         } catch (err) {
+            reset();
             alert(err);
         }
     }
 
+    function finishEditing(e_string: string) {
+        setIsEditing(false);
+        newGame(e_string, false);
+    }
+
     function exportGame() {
         // Export game to a string that can be imported later
         const exportString = game.export();
@@ -101,36 +199,69 @@ function App() {
         alert(`Exported to clipboard: ${exportString}`);
     }
 
+    function exportJson() {
+        // Export the whole game, including history, rules and headers, as versioned JSON
+        const json = JSON.stringify(game);
+        navigator.clipboard.writeText(json);
+        alert(`Exported JSON to clipboard: ${json}`);
+    }
+
+    function importPgn() {
+        // Prompt user for a Fusion PGN from exportPgn(), which is replayed and verified move by move
+        const pgn = prompt("Enter valid Fusion PGN: ");
+        try {
+            if (!pgn) return;
+            // The board is left as it was if the game cannot be loaded, so only the view is reset afterwards
+            game.loadPgn(pgn);
+            resetView();
+        } catch (err) {
+            alert(err);
+        }
+    }
+
+    function exportPgn() {
+        // Export the whole game, including move history and fused state, as Fusion PGN
+        const pgn = game.pgn();
+        navigator.clipboard.writeText(pgn);
+        alert(`Exported PGN to clipboard:\n\n${pgn}`);
+    }
+
+    // Whether the computer is to move, in which case the board is locked for the player
+    function isComputerTurn() {
+        return isThinking || computer?.color === game.turn();
+    }
+
     function onDrop(sourceSquare: Square, targetSquare: Square) {
         // Don't move if the game is over
-        if (game.isGameOver() || !isGameStarted) return false;
+        if (game.isGameOver() || !isGameStarted || isComputerTurn()) return false;
         setRightClicked({});
         setIsClicked(null);
+        // Ask which piece to promote to if there is more than one choice, and finish the move once picked
+        const choices = game
+            .generateLegalMoves({ square: sourceSquare })
+            .filter((move) => move.to === targetSquare && move.promotion)
+            .map((move) => move.promotion as PieceSymbol);
+        if (choices.length > 1) {
+            setPendingPromotion({ from: sourceSquare, to: targetSquare, choices });
+            return false;
+        }
+        return makeMove(sourceSquare, targetSquare, choices[0]);
+    }
+
+    function onPromotionSelect(piece: PieceSymbol) {
+        if (!pendingPromotion) return;
+        makeMove(pendingPromotion.from, pendingPromotion.to, piece);
+        setPendingPromotion(null);
+    }
+
+    function makeMove(sourceSquare: Square, targetSquare: Square, promotion?: PieceSymbol) {
         try {
-            const move = game.movePiece(sourceSquare, targetSquare);
-            if (move === false) {
+            const result = game.tryMove(sourceSquare, targetSquare, promotion);
+            if (!result.ok) {
+                // Explain why the piece snapped back, as refused fused moves are not always obvious
+                setMsgAlert(result.message);
                 return false;
             }
-            // Play sounds depending on the event
-            if (game.isInCheckmate()) {
-                // Checkmate
-                sounds[0].play();
-            } else if (game.isDraw()) {
-                // Stalemate or draw
-                sounds[2].play();
-            } else if (game.isInCheck()) {
-                // Check
-                sounds[1].play();
-            } else if (typeof move !== "boolean" && move?.captured) {
-                // Capture
-                sounds[3].play();
-            } else if (move.san === "O-O" || move.san === "O-O-O") {
-                // Castling
-                sounds[4].play();
-            } else {
-                // Normal move
-                sounds[5].play();
-            }
             // Clear board from highlighting
             setSquareAttributes({});
         } catch (e) {
@@ -144,7 +275,7 @@ function App() {
 
     function onClick(square: Square) {
         setRightClicked({});
-        if (game.isGameOver() || !isGameStarted) return;
+        if (game.isGameOver() || !isGameStarted || isComputerTurn()) return;
         onHover(square);
         if (isClicked && square !== isClicked) {
             // Must be trying to make a move on the board
@@ -171,53 +302,30 @@ function App() {
     }
 
     function onHover(square: Square) {
+        if (showAttacks) {
+            const attackers = game.getAttackers(square);
+            setAttackInfo(
+                attackers.length > 0
+                    ? `${square} is attacked by the ${attackers.map(describeAttacker).join(", ")}`
+                    : `${square} is not attacked`
+            );
+        }
         if (game.isGameOver() || isClicked || !isGameStarted) return;
-        const moves = game.moves({ square: square, verbose: true });
+        // Legal moves already include any fused powers and king fusion of the hovered piece
+        const moves = game.generateLegalMoves({ square: square });
         let edits = {};
         for (let i = 0; i < moves.length; i++) {
             // Assign edits to a variable to avoid re-rendering for each move
             edits = {
                 ...edits,
                 [moves[i].to]: {
-                    backgroundImage:
-                        game.get(moves[i].to) && game.get(moves[i].to).color !== game.get(square).color
-                            ? "radial-gradient(circle, rgba(0,0,0,.1) 85%, transparent 85%)"
-                            : "radial-gradient(circle, rgba(0,0,0,.1) 25%, transparent 25%)",
+                    backgroundImage: moves[i].captured
+                        ? "radial-gradient(circle, rgba(0,0,0,.1) 85%, transparent 85%)"
+                        : "radial-gradient(circle, rgba(0,0,0,.1) 25%, transparent 25%)",
                     borderRadius: "50%",
                 },
             };
         }
-        // Check if the current square has a fused piece on it
-        let fused = Object.entries(game.positions[1]).find((piece) => piece[0] === square);
-        const fusedKings = Object.entries(game.positions[3]);
-        for (let i = 0; i < fusedKings.length; i++) {
-            if (fusedKings[i][0][0] === (game.turn() === "w" ? "b" : "w")) continue;
-            if (fused) {
-                fused.concat([game.findKing(fusedKings[i][0][0] as Color), fusedKings[i][1]]);
-            } else {
-                fused = [game.findKing(fusedKings[i][0][0] as Color), fusedKings[i][1]];
-            }
-        }
-        if (fused) {
-            // If it does, highlight the additional moves of the fused piece
-            const moves = game.getFusedMoves(fused, square);
-            for (let i = 0; i < moves.length; i++) {
-                // Ensure to only assign moves that we are hovering, and to ensure it is our turn
-                if (moves[i].includes(square) && game.turn() === game.get(square).color) {
-                    edits = {
-                        ...edits,
-                        [moves[i].slice(-2)]: {
-                            backgroundImage:
-                                game.get(moves[i].slice(-2) as Square) &&
-                                game.get(moves[i].slice(-2) as Square).color !== game.get(square).color
-                                    ? "radial-gradient(circle, rgba(0,0,0,.1) 85%, transparent 85%)"
-                                    : "radial-gradient(circle, rgba(0,0,0,.1) 25%, transparent 25%)",
-                            borderRadius: "50%",
-                        },
-                    };
-                }
-            }
-        }
         // Highlight squares by updating the styles board state
         setSquareAttributes(edits);
     }
@@ -236,8 +344,9 @@ function App() {
     }
 
     function onHoverLeave(square: Square) {
+        setAttackInfo("");
         if (isClicked === square || !isGameStarted) return;
-        const moves = game.moves({ square: square, verbose: true });
+        const moves = game.generateLegalMoves({ square: square });
         for (let i = 0; i < moves.length; i++) {
             // Remove highlighting by updating the styles board state
             setSquareAttributes({
@@ -249,92 +358,174 @@ function App() {
         }
     }
 
+    function resign() {
+        if (!isGameStarted || !window.confirm(`Resign as ${game.turn() === "w" ? "white" : "black"}?`)) return;
+        if (!game.resign(game.turn())) return;
+        setSquareAttributes({});
+        setIsClicked(null);
+    }
+
+    // Play the sound of the most important thing a move did, which is the last event it emits
+    useEffect(() => {
+        if (sounds.length === 0) return;
+        let pending: HTMLAudioElement | null = null;
+        const play = (sound: HTMLAudioElement) => {
+            if (!pending) {
+                queueMicrotask(() => {
+                    pending?.play();
+                    pending = null;
+                });
+            }
+            pending = sound;
+        };
+        const unsubscribe = [
+            // Castling or a normal move
+            game.on("move", ({ move }) => play(move.san.startsWith("O-O") ? sounds[4] : sounds[5])),
+            game.on("capture", () => play(sounds[3])),
+            game.on("check", () => play(sounds[1])),
+            game.on("gameOver", ({ result }) => {
+                // Checkmate, or stalemate and draws, as resignations make no sound
+                if (result.reason === "checkmate") play(sounds[0]);
+                else if (result.winner === null) play(sounds[2]);
+            }),
+        ];
+        return () => unsubscribe.forEach((off) => off());
+    }, [sounds]);
+
+    // Let the computer move whenever it is its turn at the end of the game
+    useEffect(() => {
+        if (!computer || !isGameStarted || isEditing || game.isGameOver()) return;
+        if (game.turn() !== computer.color || game.canRedo) return;
+        setIsThinking(true);
+        const cancel = findComputerMove(game, computer.strength, computer.delay, (uci) => {
+            setIsThinking(false);
+            if (!uci) return;
+            // The computer's move is checked by the board in the same way as the player's
+            const promotion = (uci[4] ?? "q") as PieceSymbol;
+            const move = game.movePiece(uci.slice(0, 2) as Square, uci.slice(2, 4) as Square, promotion);
+            if (!move) {
+                setMsgAlert(`The computer tried an illegal move: ${uci}`);
+                return;
+            }
+            setSquareAttributes({});
+            setFen(game.fen());
+        });
+        return () => {
+            cancel();
+            setIsThinking(false);
+        };
+    }, [fen, computer, isGameStarted, isEditing]);
+
+    function changeComputer(color: string) {
+        setComputer(color ? { strength: "shallow", delay: 500, ...computer, color: color as Color } : null);
+    }
+
     function start() {
         new Audio("/assets/start.mp3").play();
         setIsGameStarted(true);
     }
 
+    // Keep the fused piece overlay and the status message up to date from the board's events
     useEffect(() => {
-        // Handle game conditions
-        if (game.isInCheckmate()) {
-            setMsgAlert("CHECKMATE");
-        } else if (game.isInStalemate()) {
-            setMsgAlert("STALEMATE");
-        } else if (game.isThreefoldRepetition()) {
-            setMsgAlert("DRAW BY THREEFOLD REPETITION");
-        } else if (game.isInsufficientMaterial()) {
-            setMsgAlert("DRAW BY INSUFFICIENT MATERIAL");
-        } else if (game.isDraw()) {
-            setMsgAlert("DRAW BY 50 MOVE RULE");
-        } else if (game.isInCheck()) {
-            setMsgAlert("CHECK");
-        } else {
-            setMsgAlert("");
-        }
+        // Anything that replaces the position is shown from scratch
+        const refresh = () => {
+            setFusedDisplay(fusedStyles(game));
+            const result = game.getResult();
+            setMsgAlert(result ? describeResult(result) : game.isInCheck() ? "CHECK" : "");
+        };
+        refresh();
+        const unsubscribe = [
+            // Fused pieces can move or be captured without fusing anything, so the overlay follows every move
+            game.on("move", () => {
+                setFusedDisplay(fusedStyles(game));
+                setMsgAlert("");
+            }),
+            game.on("check", () => setMsgAlert("CHECK")),
+            game.on("gameOver", ({ result }) => setMsgAlert(describeResult(result))),
+            game.on("import", refresh),
+            game.on("undo", refresh),
+            game.on("redo", refresh),
+        ];
+        return () => unsubscribe.forEach((off) => off());
+    }, []);
 
-        // Handle fused pieces and their display on the board
-        const fused = Object.entries(game.positions[1]).concat(Object.entries(game.positions[3]));
-        let edits = {};
-        if (fused.length > 0) {
-            for (let i = 0; i < fused.length; i++) {
-                // Check if the fused piece is missing on the board as well
-                const colour = game.get(fused[i][0] as Square).color;
-                if (!colour && fused[i][0] !== "wK" && fused[i][0] !== "bK") {
-                    game.reportMissingFusedPiece(fused[i][0] as Square);
-                    continue;
-                }
-                // King will be represented as a colour not a piece
-                if (fused[i][0] === "wK" || fused[i][0] === "bK") {
-                    edits = {
-                        ...edits,
-                        [game.findKing(fused[i][0][0] as Color)]: {
-                            backgroundImage: `url(/assets/pieces/${fused[i][0][0]}${fused[i][1].toUpperCase()}.png)`,
-                            backgroundSize: "contain",
-                            backgroundRepeat: "no-repeat",
-                            backgroundPosition: "left 25px center",
-                        },
-                    };
-                } else {
-                    edits = {
-                        ...edits,
-                        [fused[i][0]]: {
-                            backgroundImage: `url(/assets/pieces/${colour}${fused[i][1].toUpperCase()}.png)`,
-                            backgroundSize: "contain",
-                            backgroundRepeat: "no-repeat",
-                            backgroundPosition: "left 25px center",
-                        },
-                    };
-                }
-            }
-        }
-        setFusedDisplay(edits);
-    }, [fen]);
-
-    // Rate limit the rate an undo can be performed to prevent Stockfish from crashing the browser
-    const handleUndoClick = () => {
-        // Check if a timeout is already running
-        if (timeoutRef.current !== null) {
-            return;
+    // Outline attacked pieces when the attack overlay is on, in red for pieces that are not defended
+    const attackDisplay = useMemo(() => {
+        const styles: { [key: string]: object } = {};
+        if (!showAttacks) return styles;
+        const attacks = { w: game.attackMap("w"), b: game.attackMap("b") };
+        for (const square of SQUARES) {
+            const piece = game.get(square);
+            if (!piece || !attacks[piece.color === "w" ? "b" : "w"][square]) continue;
+            const hanging = !attacks[piece.color][square];
+            styles[square] = {
+                ...fusedDisplay[square],
+                boxShadow: hanging ? "inset 0 0 0 4px rgba(255, 0, 0, 0.8)" : "inset 0 0 0 3px rgba(255, 165, 0, 0.7)",
+            };
         }
-        // Set a timeout of 250ms before calling undoMove
-        timeoutRef.current = setTimeout(() => {
-            game.undoMove();
-            setFen(game.fen());
-            setIsClicked(null);
-            timeoutRef.current = null;
-        }, 250);
+        return styles;
+    }, [fen, showAttacks, fusedDisplay]);
+
+    useEffect(() => {
+        saveSettings(engineSettings);
+    }, [engineSettings]);
+
+    // Arrows for the first move of each engine line that can be played under the fusion rules
+    const engineArrows = useMemo(() => {
+        if (!showArrows || !isStockfishOn) return [];
+        const moves = engineLines.filter((line) => line.legal).map((line) => line.uci[0].slice(0, 4));
+        return [...new Set(moves)].map((uci) => [uci.slice(0, 2), uci.slice(2, 4)] as Square[]);
+    }, [engineLines, showArrows, isStockfishOn]);
+
+    // Summarise where a fused power came from, as its original side, capture chain and the ply it was fused on
+    function describeLineage(square: Square) {
+        const info = game.getFusionInfo(square);
+        if (!info) return "";
+        return ` (${info.color === "w" ? "white" : "black"} ${info.chain.join("→")}, ply ${info.ply})`;
+    }
+
+    // The target ply is read from the board when navigating, so it is always relative to the latest position
+    // The engines stop their previous search on each new position, so the history can be moved through freely
+    const navigateHistory = (target: () => number) => {
+        game.goToPly(target());
+        setFen(game.fen());
+        setIsClicked(null);
+        setSquareAttributes({});
+        setPendingPromotion(null);
     };
 
-    // Enable random moves to be played by the computer
-    // The available moves will be debugged to console, and these moves will pause intermitently
-    // useEffect(() => {
-    //     if (game.isGameOver()) return;
-    //     const allMoves = game.getEveryMove();
-    //     console.debug(allMoves);
-    //     if (allMoves.length === 0) return;
-    //     const randomMove = allMoves[Math.floor(Math.random() * allMoves.length)];
-    //     onDrop(randomMove.slice(0, 2) as Square, randomMove.slice(-2) as Square);
-    // }, [fen]);
+    const handleUndoClick = () =>
+        navigateHistory(() => {
+            const target = game.getCursor() - 1;
+            // Against the computer, undo takes back the computer's reply as well as the player's move
+            // The side to move alternates, so the computer is to move at the target when the player is to move now
+            const opponent = computerRef.current;
+            return opponent && target > 0 && game.turn() !== opponent.color ? target - 1 : target;
+        });
+    const handleRedoClick = () => navigateHistory(() => game.getCursor() + 1);
+    const handleFirstClick = () => navigateHistory(() => 0);
+    const handleLastClick = () => navigateHistory(() => game.getHistory().length);
+
+    // Allow the history to be reviewed with the arrow keys
+    useEffect(() => {
+        // The game behind the board editor is left alone while it is open
+        if (isEditing) return;
+        const handleKeyDown = (event: KeyboardEvent) => {
+            const actions: Record<string, () => void> = {
+                ArrowLeft: handleUndoClick,
+                ArrowRight: handleRedoClick,
+                ArrowUp: handleFirstClick,
+                ArrowDown: handleLastClick,
+            };
+            if (!actions[event.key]) return;
+            // Arrow keys in form fields belong to the field, such as stepping a number input
+            if (event.target instanceof Element && event.target.closest("input, select, textarea")) return;
+            event.preventDefault();
+            actions[event.key]();
+        };
+        window.addEventListener("keydown", handleKeyDown);
+        return () => window.removeEventListener("keydown", handleKeyDown);
+    }, [isEditing]);
 
     // Log every possible move to console
     // useEffect(() => {
@@ -346,7 +537,16 @@ function App() {
     return (
         <div className="container">
             <img src="/cdotcom.png" id="bg" alt="Background" />
-            <div className="board">
+            {isEditing && (
+                <BoardEditor
+                    start={game.export()}
+                    boardWidth={boardWidth}
+                    customPieces={customPieces()}
+                    onDone={finishEditing}
+                    onCancel={() => setIsEditing(false)}
+                />
+            )}
+            <div className="board" hidden={isEditing}>
                 <Chessboard
                     position={fen}
                     onPieceDrop={onDrop}
@@ -356,12 +556,14 @@ function App() {
                     boardWidth={boardWidth}
                     onMouseOverSquare={onHover}
                     onMouseOutSquare={onHoverLeave}
-                    customSquareStyles={{ ...fusedDisplay, ...squareAttributes, ...rightClicked }}
+                    customSquareStyles={{ ...fusedDisplay, ...attackDisplay, ...squareAttributes, ...rightClicked }}
                     customBoardStyle={{ borderRadius: "10px" }}
                     customPieces={customPieces()}
+                    arePiecesDraggable={!isThinking}
+                    customArrows={engineArrows}
                 />
             </div>
-            <div className="left">
+            <div className="left" hidden={isEditing}>
                 <h1 className="title">Fusion Chess</h1>
                 <h3 style={{ color: "white" }}>
                     <a style={{ color: "#4db2ff" }} href="https://github.com/bubner/" target="_blank" rel="noreferrer">
@@ -381,6 +583,63 @@ function App() {
                 <button onClick={handleUndoClick}>
                     Undo
                 </button>
+                <button onClick={resign}>
+                    Resign
+                </button>
+                <br />
+                <div id="computer">
+                    <label>
+                        Opponent:{" "}
+                        <select value={computer?.color ?? ""} onChange={(event) => changeComputer(event.target.value)}>
+                            <option value="">Two players</option>
+                            <option value="b">Computer plays Black</option>
+                            <option value="w">Computer plays White</option>
+                        </select>
+                    </label>
+                    {computer && (
+                        <>
+                            {" "}
+                            <select
+                                value={computer.strength}
+                                onChange={(event) =>
+                                    setComputer({ ...computer, strength: event.target.value as Strength })
+                                }
+                            >
+                                {Object.entries(STRENGTHS).map(([strength, { label }]) => (
+                                    <option key={strength} value={strength}>
+                                        {label}
+                                    </option>
+                                ))}
+                            </select>{" "}
+                            <label>
+                                Delay:{" "}
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={100}
+                                    value={computer.delay}
+                                    onChange={(event) =>
+                                        setComputer({ ...computer, delay: Math.max(0, Number(event.target.value)) })
+                                    }
+                                />{" "}
+                                ms
+                            </label>
+                            {isThinking && <p>The computer is thinking...</p>}
+                        </>
+                    )}
+                </div>
+                <button onClick={handleFirstClick} disabled={!game.canUndo} title="First move (Up)">
+                    &lt;&lt;
+                </button>
+                <button onClick={handleUndoClick} disabled={!game.canUndo} title="Back (Left)">
+                    &lt;
+                </button>
+                <button onClick={handleRedoClick} disabled={!game.canRedo} title="Forward (Right)">
+                    &gt;
+                </button>
+                <button onClick={handleLastClick} disabled={!game.canRedo} title="Last move (Down)">
+                    &gt;&gt;
+                </button>
                 <br />
                 <button onClick={exportGame}>
                     Export
@@ -388,10 +647,55 @@ function App() {
                 <button onClick={importGame}>
                     Import
                 </button>
+                <button onClick={exportJson}>
+                    Export JSON
+                </button>
+                <br />
+                <button onClick={newGameFromPosition}>
+                    New From Position
+                </button>
+                <button onClick={() => newGame(chess960Position(), true)}>
+                    Random 960
+                </button>
+                <button onClick={() => setIsEditing(true)}>
+                    Edit Board
+                </button>
+                <br />
+                <button onClick={exportPgn}>
+                    Export PGN
+                </button>
+                <button onClick={importPgn}>
+                    Import PGN
+                </button>
                 <br />
                 <button onClick={() => setIsStockfishOn(!isStockfishOn)}>
                     Toggle Stockfish
                 </button>
+                <button
+                    onClick={() => setIsNativeEngine(!isNativeEngine)}
+                    title="Switch between Stockfish and the Fusion engine"
+                >
+                    {isNativeEngine ? "Use Stockfish" : "Use Fusion Engine"}
+                </button>
+                <button onClick={() => setShowSettings(!showSettings)}>
+                    Engine Settings
+                </button>
+                {showSettings && (
+                    <EngineSettings
+                        settings={engineSettings[engineName]}
+                        native={isNativeEngine}
+                        onChange={(settings) => setEngineSettings({ ...engineSettings, [engineName]: settings })}
+                    />
+                )}
+                <button onClick={() => setShowAttacks(!showAttacks)} title="Outline attacked and undefended pieces">
+                    Toggle Attacks
+                </button>
+                <button onClick={() => setShowArrows(!showArrows)} title="Draw the engine's best moves on the board">
+                    Toggle Arrows
+                </button>
+                {showAttacks && (
+                    <p className="attacks">{attackInfo || "Hover over a square to list its attackers."}</p>
+                )}
                 <br />
                 <button
                     id="start"
@@ -404,6 +708,20 @@ function App() {
                 >
                     Start
                 </button>
+                {pendingPromotion && (
+                    <div id="promotion">
+                        <p>Promote to:</p>
+                        {pendingPromotion.choices.map((piece) => (
+                            <button key={piece} onClick={() => onPromotionSelect(piece)}>
+                                <img src={`/assets/pieces/${game.turn()}${piece.toUpperCase()}.png`} alt={piece} />
+                            </button>
+                        ))}
+                        <br />
+                        <button onClick={() => setPendingPromotion(null)}>
+                            Cancel
+                        </button>
+                    </div>
+                )}
                 <p id="alert" className="center">
                     {msgAlert}
                 </p>
@@ -416,7 +734,8 @@ function App() {
                             return (
                                 <Fragment key={index}>
                                     {position.slice(0, 1)}={position.slice(-1).toString().substring(1)}
-                                    {position.slice(-1).toString().substring(0, 1).toUpperCase()}{" "}
+                                    {position.slice(-1).toString().substring(0, 1).toUpperCase()}
+                                    {describeLineage(position[0] as Square)}{" "}
                                 </Fragment>
                             );
                         })
@@ -430,6 +749,7 @@ function App() {
                                 <Fragment key={index}>
                                     <br />
                                     {position.slice(0, 1)}={position.slice(-1)}
+                                    {describeLineage(game.findKing(position[0][0] as Color))}
                                 </Fragment>
                             );
                         })}
@@ -443,7 +763,15 @@ function App() {
                             return (
                                 <Fragment key={index}>
                                     {index % 2 === 0 ? index / 2 + 1 + "." : null}
-                                    {data[1].fsan}{" "}
+                                    {/* Moves can be clicked to review the position after them */}
+                                    <span
+                                        className={`move ${index === game.getCursor() - 1 ? "current" : ""} ${
+                                            index >= game.getCursor() ? "future" : ""
+                                        }`}
+                                        onClick={() => navigateHistory(() => index + 1)}
+                                    >
+                                        {data[1].fsan}
+                                    </span>{" "}
                                 </Fragment>
                             );
                         })
@@ -454,10 +782,13 @@ function App() {
             </div>
             {isStockfishOn &&
                 <Stockfish
-                    fen={isGameStarted ? fen : null}
+                    fen={isGameStarted ? (isNativeEngine ? game.export() : fen) : null}
                     vfen={isGameStarted ? game.positions[2] : ""}
-                    depth={18}
+                    position={game.export()}
+                    settings={engineSettings[engineName]}
                     shouldRun={!game.isGameOver()}
+                    native={isNativeEngine}
+                    onLines={setEngineLines}
                 />
             }
         </div>
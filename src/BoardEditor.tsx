@@ -0,0 +1,291 @@
+/**
+ * Board editor for composing Fusion Chess positions, including fused pieces and king fusions.
+ * Positions are validated live with the same checks as FusionBoard.import().
+ * @author Lucas Bubner, 2023
+ */
+import { useState, DragEvent } from "react";
+import { Chessboard } from "react-chessboard";
+import { Color, PieceSymbol, Square, SQUARES, DEFAULT_POSITION } from "chess.js/src/chess";
+import FusionBoard, { validateExport } from "./FusionBoard";
+
+type EditorState = {
+    // Primary pieces in react-chessboard notation, such as wN
+    pieces: Record<string, string>;
+    // Fused pieces keyed the same way as the export string, by square or wK/bK for king fusions
+    fused: Record<string, PieceSymbol>;
+    turn: Color;
+    castling: string;
+    ep: string;
+};
+
+const PALETTE = ["wP", "wN", "wB", "wR", "wQ", "wK", "bP", "bN", "bB", "bR", "bQ", "bK"];
+const FUSIONS: PieceSymbol[] = ["p", "n", "b", "r", "q"];
+
+// Read an export string into the editor, through a board so that any notation import() accepts can be edited
+function readPosition(e_string: string): EditorState {
+    const board = new FusionBoard();
+    board.import(e_string);
+    const pieces: Record<string, string> = {};
+    for (const square of SQUARES) {
+        const piece = board.get(square);
+        if (piece) pieces[square] = `${piece.color}${piece.type.toUpperCase()}`;
+    }
+    const [, turn, castling, ep] = board.export().split(" ");
+    return {
+        pieces,
+        fused: { ...board.positions[1], ...board.positions[3] } as Record<string, PieceSymbol>,
+        turn: turn as Color,
+        // Only the standard castling letters can be edited, any others are dropped
+        castling: castling.replace(/[^KQkq]/g, ""),
+        ep,
+    };
+}
+
+function writePosition({ pieces, fused, turn, castling, ep }: EditorState): string {
+    const rows: string[] = [];
+    for (let row = 0; row < 8; row++) {
+        let placement = "";
+        let empty = 0;
+        for (const square of SQUARES.slice(row * 8, row * 8 + 8)) {
+            const piece = pieces[square];
+            if (!piece) {
+                empty++;
+                continue;
+            }
+            if (empty > 0) placement += empty;
+            empty = 0;
+            placement += piece[0] === "w" ? piece[1] : piece[1].toLowerCase();
+        }
+        rows.push(empty > 0 ? placement + empty : placement);
+    }
+    const fusions = Object.entries(fused)
+        .map(([key, piece]) => `${key}=${piece},`)
+        .join("");
+    return `${rows.join("/")} ${turn} ${castling || "-"} ${ep || "-"} 0 1 ${fusions}`;
+}
+
+function BoardEditor({
+    start,
+    boardWidth,
+    customPieces,
+    onDone,
+    onCancel,
+}: {
+    start: string;
+    boardWidth: number;
+    customPieces: Parameters<typeof Chessboard>[0]["customPieces"];
+    onDone: (e_string: string) => void;
+    onCancel: () => void;
+}) {
+    const [position, setPosition] = useState<EditorState>(() => readPosition(start));
+    // The palette tool applied to clicked squares: a piece to place, +piece to fuse, unfuse or erase
+    const [tool, setTool] = useState<string>("wP");
+    const [orientation, setOrientation] = useState<"white" | "black">("white");
+
+    const e_string = writePosition(position);
+    const validation = validateExport(e_string);
+
+    // Fusions belong to a square, apart from king fusions which follow their king
+    function fusionKey(pieces: Record<string, string>, square: string): string {
+        const piece = pieces[square];
+        return piece && piece[1] === "K" ? `${piece[0]}K` : square;
+    }
+
+    function applyTool(square: Square, selected: string = tool) {
+        const pieces = { ...position.pieces };
+        const fused = { ...position.fused };
+        if (selected.startsWith("+")) {
+            if (!pieces[square]) return;
+            fused[fusionKey(pieces, square)] = selected[1] as PieceSymbol;
+        } else if (selected === "unfuse") {
+            delete fused[fusionKey(pieces, square)];
+        } else {
+            // Anything placed over a piece replaces its fusion as well
+            delete fused[fusionKey(pieces, square)];
+            delete pieces[square];
+            if (selected !== "erase") {
+                // There can only be one king of each colour, so placing a king moves it
+                if (selected[1] === "K") {
+                    for (const [other, piece] of Object.entries(pieces)) {
+                        if (piece === selected) delete pieces[other];
+                    }
+                }
+                pieces[square] = selected;
+            }
+        }
+        setPosition({ ...position, pieces, fused });
+    }
+
+    function onPieceDrop(sourceSquare: Square, targetSquare: Square) {
+        const pieces = { ...position.pieces };
+        const fused = { ...position.fused };
+        // A piece dropped onto another removes it, and carries its own fused piece with it
+        if (pieces[targetSquare]?.[1] === "K" && pieces[targetSquare] !== pieces[sourceSquare]) {
+            delete fused[`${pieces[targetSquare][0]}K`];
+        }
+        delete fused[targetSquare];
+        if (fused[sourceSquare]) {
+            fused[targetSquare] = fused[sourceSquare];
+            delete fused[sourceSquare];
+        }
+        pieces[targetSquare] = pieces[sourceSquare];
+        delete pieces[sourceSquare];
+        setPosition({ ...position, pieces, fused });
+        return true;
+    }
+
+    // Palette pieces are dragged with native drag and drop, so the square is worked out from the drop point
+    function onPaletteDrop(event: DragEvent<HTMLDivElement>) {
+        event.preventDefault();
+        const selected = event.dataTransfer.getData("text/plain");
+        if (!selected) return;
+        const rect = event.currentTarget.getBoundingClientRect();
+        const size = rect.width / 8;
+        const file = Math.floor((event.clientX - rect.left) / size);
+        const row = Math.floor((event.clientY - rect.top) / size);
+        if (file < 0 || file > 7 || row < 0 || row > 7) return;
+        const index = orientation === "white" ? row * 8 + file : (7 - row) * 8 + (7 - file);
+        applyTool(SQUARES[index], selected);
+    }
+
+    function toggleCastling(right: string) {
+        const castling = position.castling.includes(right)
+            ? position.castling.replace(right, "")
+            : "KQkq".split("").filter((r) => r === right || position.castling.includes(r)).join("");
+        setPosition({ ...position, castling });
+    }
+
+    function copy(text: string) {
+        navigator.clipboard.writeText(text);
+        alert(`Copied to clipboard: ${text}`);
+    }
+
+    // Show fused pieces the same way as the game board
+    const fusedStyles: Record<string, object> = {};
+    for (const [key, piece] of Object.entries(position.fused)) {
+        const square = key.endsWith("K")
+            ? Object.keys(position.pieces).find((sq) => position.pieces[sq] === key)
+            : key;
+        if (!square || !position.pieces[square]) continue;
+        fusedStyles[square] = {
+            backgroundImage: `url(/assets/pieces/${position.pieces[square][0]}${piece.toUpperCase()}.png)`,
+            backgroundSize: "contain",
+            backgroundRepeat: "no-repeat",
+            backgroundPosition: "left 25px center",
+        };
+    }
+
+    return (
+        <>
+            <div className="board" onDragOver={(event) => event.preventDefault()} onDrop={onPaletteDrop}>
+                <Chessboard
+                    id="editor-board"
+                    position={position.pieces}
+                    boardWidth={boardWidth}
+                    boardOrientation={orientation}
+                    onPieceDrop={onPieceDrop}
+                    onSquareClick={(square) => applyTool(square)}
+                    onSquareRightClick={(square) => applyTool(square, "erase")}
+                    customSquareStyles={fusedStyles}
+                    customBoardStyle={{ borderRadius: "10px" }}
+                    customPieces={customPieces}
+                />
+            </div>
+            <div className="left" id="editor">
+                <h1 className="title">Board Editor</h1>
+                <div className="palette">
+                    {PALETTE.map((piece) => (
+                        <img
+                            key={piece}
+                            src={`/assets/pieces/${piece}.png`}
+                            alt={piece}
+                            draggable
+                            onDragStart={(event) => event.dataTransfer.setData("text/plain", piece)}
+                            onClick={() => setTool(piece)}
+                            className={tool === piece ? "selected" : ""}
+                        />
+                    ))}
+                </div>
+                <div className="palette">
+                    {FUSIONS.map((piece) => (
+                        <img
+                            key={piece}
+                            src={`/assets/pieces/${position.turn}${piece.toUpperCase()}.png`}
+                            alt={`Fuse ${piece}`}
+                            title={`Fuse a ${piece.toUpperCase()} to a piece or king`}
+                            draggable
+                            onDragStart={(event) => event.dataTransfer.setData("text/plain", `+${piece}`)}
+                            onClick={() => setTool(`+${piece}`)}
+                            className={tool === `+${piece}` ? "selected fusion" : "fusion"}
+                        />
+                    ))}
+                </div>
+                <button onClick={() => setTool("unfuse")} className={tool === "unfuse" ? "selected" : ""}>
+                    Unfuse
+                </button>
+                <button onClick={() => setTool("erase")} className={tool === "erase" ? "selected" : ""}>
+                    Erase
+                </button>
+                <br />
+                <label>
+                    To move:{" "}
+                    <select
+                        value={position.turn}
+                        onChange={(event) => setPosition({ ...position, turn: event.target.value as Color })}
+                    >
+                        <option value="w">White</option>
+                        <option value="b">Black</option>
+                    </select>
+                </label>{" "}
+                <label>
+                    En passant:{" "}
+                    <input
+                        value={position.ep}
+                        size={2}
+                        onChange={(event) => setPosition({ ...position, ep: event.target.value.trim() || "-" })}
+                    />
+                </label>
+                <br />
+                Castling:{" "}
+                {["K", "Q", "k", "q"].map((right) => (
+                    <label key={right}>
+                        <input
+                            type="checkbox"
+                            checked={position.castling.includes(right)}
+                            onChange={() => toggleCastling(right)}
+                        />
+                        {right}{" "}
+                    </label>
+                ))}
+                <br />
+                <button onClick={() => setPosition({ pieces: {}, fused: {}, turn: "w", castling: "", ep: "-" })}>
+                    Clear
+                </button>
+                <button onClick={() => setPosition(readPosition(DEFAULT_POSITION))}>
+                    Initial
+                </button>
+                <button onClick={() => setOrientation(orientation === "white" ? "black" : "white")}>
+                    Flip
+                </button>
+                <br />
+                <button onClick={() => copy(e_string)} disabled={!validation.ok}>
+                    Copy Export
+                </button>
+                <button onClick={() => copy(`[FFEN "${e_string.trim()}"]`)} disabled={!validation.ok}>
+                    Copy PGN Tag
+                </button>
+                <br />
+                <button onClick={() => onDone(e_string)} disabled={!validation.ok}>
+                    Done
+                </button>
+                <button onClick={onCancel}>
+                    Cancel
+                </button>
+                <p className="validation">{validation.ok ? "Valid position." : validation.error}</p>
+                <p className="export">{e_string}</p>
+            </div>
+        </>
+    );
+}
+
+export default BoardEditor;
@@ -0,0 +1,68 @@
+/**
+ * Computer opponent for playing against the board, from a random mover up to a deeper search with the native engine.
+ * Searches run in the engine's web worker so that the page stays responsive while the computer thinks.
+ * @author Lucas Bubner, 2023
+ */
+import FusionBoard from "./FusionBoard";
+import { toUci } from "./FusionEngine";
+import EngineWorker from "./EngineWorker";
+
+export type Strength = "random" | "shallow" | "deep";
+
+// How far the native engine searches at each strength, where the random mover does not search at all
+export const STRENGTHS: Record<Strength, { label: string; depth: number }> = {
+    random: { label: "Random mover", depth: 0 },
+    shallow: { label: "Shallow search", depth: 2 },
+    deep: { label: "Deep search", depth: 4 },
+};
+
+// Started on the computer's first search and kept for the rest, as searches that are no longer wanted are stopped
+let engine: EngineWorker | null = null;
+
+/**
+ * Find a move for the side to move in UCI notation, or null if there is none. The move is passed to the callback
+ * once found, and no sooner than the given delay in milliseconds. Returns a function that cancels the search.
+ */
+export function findComputerMove(
+    game: FusionBoard,
+    strength: Strength,
+    delay: number,
+    onMove: (uci: string | null) => void
+): () => void {
+    const started = Date.now();
+    let timeout: number | undefined;
+    let searching = false;
+    const finish = (uci: string | null) => {
+        searching = false;
+        timeout = window.setTimeout(() => onMove(uci), Math.max(0, delay - (Date.now() - started)));
+    };
+
+    const { depth } = STRENGTHS[strength];
+    if (depth === 0) {
+        const moves = game.generateLegalMoves();
+        finish(moves.length > 0 ? toUci(moves[Math.floor(Math.random() * moves.length)]) : null);
+    } else {
+        if (!engine) {
+            engine = new EngineWorker(
+                () => new Worker(new URL("./FusionEngineWorker.ts", import.meta.url), { type: "module" })
+            );
+        }
+        searching = true;
+        engine.analyse({
+            fen: game.export(),
+            format: "ffen",
+            go: `go depth ${depth}`,
+            options: {},
+            onMessage: (line) => {
+                if (!line.startsWith("bestmove")) return;
+                const uci = line.split(" ")[1];
+                finish(uci === "(none)" ? null : uci);
+            },
+        });
+    }
+
+    return () => {
+        if (searching) engine?.stop();
+        window.clearTimeout(timeout);
+    };
+}
@@ -0,0 +1,106 @@
+/**
+ * Settings for analysis with Stockfish and the native Fusion engine, kept for each engine in localStorage.
+ * @author Lucas Bubner, 2023
+ */
+export type AnalysisSettings = {
+    // Search to a fixed depth, for a fixed time, or for as long as the position is on the board
+    mode: "depth" | "movetime" | "infinite";
+    depth: number;
+    // Milliseconds to search for in movetime mode
+    movetime: number;
+    threads: number;
+    // Transposition table size in megabytes
+    hash: number;
+    // Number of best lines to show for each board
+    multipv: number;
+};
+
+export type EngineName = "stockfish" | "native";
+
+// The native engine searches far fewer positions a second than Stockfish, and has no threads or hash to configure
+export const DEFAULT_SETTINGS: Record<EngineName, AnalysisSettings> = {
+    stockfish: { mode: "depth", depth: 18, movetime: 3000, threads: 1, hash: 16, multipv: 3 },
+    native: { mode: "depth", depth: 4, movetime: 3000, threads: 1, hash: 16, multipv: 3 },
+};
+
+const STORAGE_KEY = "engineSettings";
+
+/**
+ * Read the saved settings for both engines, falling back to the defaults for anything missing or unreadable.
+ */
+export function loadSettings(): Record<EngineName, AnalysisSettings> {
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+        return {
+            stockfish: { ...DEFAULT_SETTINGS.stockfish, ...saved.stockfish },
+            native: { ...DEFAULT_SETTINGS.native, ...saved.native },
+        };
+    } catch {
+        return DEFAULT_SETTINGS;
+    }
+}
+
+export function saveSettings(settings: Record<EngineName, AnalysisSettings>) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+function EngineSettings({
+    settings,
+    native,
+    onChange,
+}: {
+    settings: AnalysisSettings;
+    native: boolean;
+    onChange: (settings: AnalysisSettings) => void;
+}) {
+    // Stockfish can only share memory between threads when the page is cross-origin isolated
+    const maxThreads = window.crossOriginIsolated ? navigator.hardwareConcurrency || 1 : 1;
+
+    function numberInput(key: "depth" | "movetime" | "threads" | "hash" | "multipv", min: number, max: number) {
+        return (
+            <input
+                type="number"
+                min={min}
+                max={max}
+                value={settings[key]}
+                disabled={min === max}
+                onChange={(event) => {
+                    const value = parseInt(event.target.value) || min;
+                    onChange({ ...settings, [key]: Math.min(max, Math.max(min, value)) });
+                }}
+            />
+        );
+    }
+
+    return (
+        <div id="settings">
+            <label>
+                Search:{" "}
+                <select
+                    value={settings.mode}
+                    onChange={(event) =>
+                        onChange({ ...settings, mode: event.target.value as AnalysisSettings["mode"] })
+                    }
+                >
+                    <option value="depth">Fixed depth</option>
+                    <option value="movetime">Fixed time</option>
+                    <option value="infinite">Infinite</option>
+                </select>
+            </label>{" "}
+            {settings.mode === "depth" && <label>Depth: {numberInput("depth", 1, native ? 8 : 30)}</label>}
+            {settings.mode === "movetime" && <label>Time: {numberInput("movetime", 100, 60000)} ms</label>}
+            <br />
+            {!native && (
+                <>
+                    <label title={maxThreads === 1 ? "Threads need cross-origin isolation and more than one core" : ""}>
+                        Threads: {numberInput("threads", 1, maxThreads)}
+                    </label>{" "}
+                    <label>Hash: {numberInput("hash", 1, 1024)} MB</label>{" "}
+                </>
+            )}
+            <label>Lines: {numberInput("multipv", 1, 5)}</label>
+        </div>
+    );
+}
+
+export default EngineSettings;
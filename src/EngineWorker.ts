@@ -0,0 +1,142 @@
+/**
+ * Long-lived UCI engine worker that runs one search at a time, used for both Stockfish and the native Fusion engine.
+ * Starting a search stops the one before it and waits for its bestmove, so the engine is never asked to search two
+ * positions at once, and any output from a stopped search is dropped.
+ * @author Lucas Bubner, 2023
+ */
+
+export type EngineSearch = {
+    // The position searched, which every line of output is tagged with
+    fen: string;
+    // Plain FENs for Stockfish, or Fusion export strings for the native engine
+    format: "fen" | "ffen";
+    // The go command, such as `go depth 18`
+    go: string;
+    // UCI options for the search, which are only sent to the engine when they change
+    options: Record<string, string | number>;
+    onMessage: (line: string, fen: string) => void;
+};
+
+// How long an engine has to answer stop with its bestmove before it is replaced
+const STOP_TIMEOUT = 3000;
+
+export default class EngineWorker {
+    #create: () => Worker;
+    #worker: Worker;
+    #options: Record<string, string> = {};
+    // Set by the native engine, which can only read stop once its search has ended
+    #stopFlag: Int32Array | null = null;
+    // Waiting for uciok or readyok before anything else is sent
+    #waiting = true;
+    #current: (EngineSearch & { stopped: boolean }) | null = null;
+    // Only the latest search asked for is kept, as any before it are already stale
+    #pending: EngineSearch | null = null;
+    #watchdog: number | undefined;
+    #closed = false;
+
+    constructor(create: () => Worker) {
+        this.#create = create;
+        this.#worker = this._start();
+    }
+
+    /**
+     * Search a position once the current search, if any, has stopped.
+     */
+    analyse(search: EngineSearch) {
+        this.#pending = search;
+        this._stopCurrent();
+        this._next();
+    }
+
+    /**
+     * Stop the current search and drop any search waiting to start.
+     */
+    stop() {
+        this.#pending = null;
+        this._stopCurrent();
+    }
+
+    /**
+     * End the engine for good. Searches asked for afterwards, and stops of searches it was running, are ignored.
+     */
+    terminate() {
+        this.#closed = true;
+        this.#current = null;
+        this.#pending = null;
+        window.clearTimeout(this.#watchdog);
+        this.#worker.terminate();
+    }
+
+    private _start(): Worker {
+        // A closed engine is never brought back, or the new worker would be left running with nothing to end it
+        if (this.#closed) return this.#worker;
+        const worker = this.#create();
+        worker.onmessage = (event: MessageEvent<string | Int32Array>) => this._onMessage(event.data);
+        this.#worker = worker;
+        this.#options = {};
+        this.#stopFlag = null;
+        this.#waiting = true;
+        worker.postMessage("uci");
+        return worker;
+    }
+
+    private _onMessage(data: string | Int32Array) {
+        if (this.#closed) return;
+        if (typeof data !== "string") {
+            this.#stopFlag = data;
+            return;
+        }
+        if (data === "uciok" || data === "readyok") {
+            this.#waiting = false;
+            this._next();
+            return;
+        }
+
+        const search = this.#current;
+        if (!search) return;
+        // Output after stop belongs to a position that is no longer wanted, and is only read to find its end
+        if (!search.stopped) search.onMessage(data, search.fen);
+        if (data.startsWith("bestmove")) {
+            window.clearTimeout(this.#watchdog);
+            this.#current = null;
+            this._next();
+        }
+    }
+
+    private _next() {
+        const search = this.#pending;
+        if (this.#closed || this.#waiting || this.#current || !search) return;
+
+        // Options may take the engine a while to apply, so the search waits for readyok after changing them
+        const changed = Object.entries(search.options).filter(([name, value]) => this.#options[name] !== `${value}`);
+        if (changed.length > 0) {
+            for (const [name, value] of changed) {
+                this.#worker.postMessage(`setoption name ${name} value ${value}`);
+                this.#options[name] = `${value}`;
+            }
+            this.#waiting = true;
+            this.#worker.postMessage("isready");
+            return;
+        }
+
+        this.#pending = null;
+        this.#current = { ...search, stopped: false };
+        this.#worker.postMessage(`position ${search.format} ${search.fen}`);
+        this.#worker.postMessage(search.go);
+    }
+
+    private _stopCurrent() {
+        const search = this.#current;
+        // A terminated worker can never answer stop, so waiting on it would only restart the engine
+        if (this.#closed || !search || search.stopped) return;
+        search.stopped = true;
+        if (this.#stopFlag) Atomics.store(this.#stopFlag, 0, 1);
+        this.#worker.postMessage("stop");
+        // An engine that does not answer is replaced rather than left searching a position nobody wants
+        this.#watchdog = window.setTimeout(() => {
+            this.#worker.terminate();
+            this.#current = null;
+            this._start();
+        }, STOP_TIMEOUT);
+    }
+}
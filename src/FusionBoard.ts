@@ -32,6 +32,186 @@ class ChessBoard extends Chess {
     }
 }
 
+/**
+ * A legal Fusion Chess move, as produced by FusionBoard.generateLegalMoves().
+ */
+export type FusionMove = {
+    color: Color;
+    from: Square;
+    to: Square;
+    // Primary piece on the source square, and its fused power (the king fusion for kings)
+    piece: PieceSymbol;
+    fused?: PieceSymbol;
+    // Whether the move relies on the fused power rather than the primary piece's movement
+    virtual: boolean;
+    captured?: PieceSymbol;
+    capturedFused?: PieceSymbol;
+    promotion?: PieceSymbol;
+    castling?: "k" | "q";
+    // The rook that castles with the king, which may start on any file in Chess960
+    rook?: Square;
+    enPassant: boolean;
+    // The piece and fused power that will stand on the target square after the move
+    fusion: { piece: PieceSymbol; fused?: PieceSymbol };
+};
+
+/**
+ * Where a fused power came from, as returned by FusionBoard.getFusionInfo(). This is a record of the game for
+ * display and export, and never changes which moves are legal.
+ */
+export type FusionInfo = {
+    piece: PieceSymbol;
+    // The side the fused power belonged to before it was captured
+    color: Color;
+    // The square the power was first captured on, and the ply it was fused to its current piece
+    origin: Square;
+    ply: number;
+    // Every square the power has been captured on, from its origin to the latest capture
+    chain: Square[];
+};
+
+/**
+ * How a finished game ended, as returned by FusionBoard.getResult(). The winner is null for a draw.
+ */
+export type GameResult = {
+    winner: Color | null;
+    reason: "checkmate" | "stalemate" | "repetition" | "fifty-move" | "insufficient" | "resign" | "timeout";
+};
+
+/**
+ * Why a move was refused, as returned by FusionBoard.tryMove() and FusionBoard.explainIllegal().
+ */
+export type MoveRejection = {
+    reason:
+        | "invalid-notation"
+        | "ambiguous"
+        | "no-matching-move"
+        | "no-piece"
+        | "wrong-turn"
+        | "own-piece"
+        | "unreachable"
+        | "promotion"
+        | "no-castling-rights"
+        | "castling-out-of-check"
+        | "castling-blocked"
+        | "castling-through-check"
+        | "king-in-check"
+        | "king-exposed";
+    // A sentence explaining the reason to the player
+    message: string;
+};
+
+/**
+ * The outcome of FusionBoard.tryMove(): the move that was played, or why it was refused.
+ */
+export type MoveResult = { ok: true; move: Move } | ({ ok: false } & MoveRejection);
+
+/**
+ * Events emitted by FusionBoard, and the payload each listener receives. A move emits its events in the order
+ * move, capture, promotion, fusion or kingFusion, check and then gameOver.
+ */
+export type FusionBoardEvents = {
+    // A move was played, leaving this many moves of the history on the board
+    move: { move: Move; ply: number };
+    // The move captured a piece, standing on the given square (which differs from the target for en passant)
+    capture: { move: Move; square: Square; piece: PieceSymbol; fused?: PieceSymbol };
+    promotion: { move: Move; square: Square; piece: PieceSymbol; fused?: PieceSymbol };
+    // A capture changed the piece or fused power standing on a square
+    fusion: { move: Move; square: Square; piece: PieceSymbol; fused?: PieceSymbol; info?: FusionInfo };
+    kingFusion: { move: Move; color: Color; fused: PieceSymbol; info?: FusionInfo };
+    // The side to move is in check
+    check: { color: Color };
+    gameOver: { result: GameResult };
+    // The board moved back or forward through the history, to the position after this many moves
+    undo: { ply: number };
+    redo: { ply: number };
+    // The board was reset or replaced by a new position or game, which is given as an export string
+    import: { position: string };
+};
+
+export type FusionBoardListener<E extends keyof FusionBoardEvents> = (payload: FusionBoardEvents[E]) => void;
+
+/**
+ * A piece attacking a square, as returned by FusionBoard.getAttackers() and FusionBoard.attackMap().
+ */
+export type Attacker = {
+    square: Square;
+    color: Color;
+    // The primary piece, and the movement it attacks with
+    piece: PieceSymbol;
+    power: PieceSymbol;
+    // Whether the attack comes from the piece itself, its fused power, or the fusion of a king
+    source: "primary" | "fused" | "king-fusion";
+};
+
+/**
+ * Fusion rules that can be switched off to playtest variants. Every rule is enabled by default, as in the README.
+ */
+export type RuleSet = {
+    // A rook fusing with a bishop becomes a queen
+    rookBishopQueen: boolean;
+    // A queen can already move as a rook, bishop or pawn, so it only gains a knight from captures
+    queenOnlyGainsKnight: boolean;
+    // A king never fuses with a pawn
+    kingIgnoresPawns: boolean;
+    // A king may only fuse once, keeping its first fusion for the rest of the game
+    kingFusesOnce: boolean;
+    // Capturing a piece of the same movement results in no fusion
+    sameMovementNoFusion: boolean;
+};
+
+export const DEFAULT_RULES: RuleSet = {
+    rookBishopQueen: true,
+    queenOnlyGainsKnight: true,
+    kingIgnoresPawns: true,
+    kingFusesOnce: true,
+    sameMovementNoFusion: true,
+};
+
+export type FusionBoardOptions = {
+    rules?: Partial<RuleSet>;
+    // Export string or FEN of the position the game starts from
+    start?: string;
+    // Castling is played by moving the king onto its rook, as the king may already stand on its castling square
+    chess960?: boolean;
+};
+
+/**
+ * A fused piece as stored by FusionBoard.toJSON(), with its lineage when it is known.
+ */
+export type FusedPieceJSON = {
+    piece: PieceSymbol;
+    lineage?: Omit<FusionInfo, "piece">;
+};
+
+/**
+ * A position as stored by FusionBoard.toJSON(). Castling rights in the FEN may be in KQkq, X-FEN or Shredder-FEN.
+ */
+export type PositionJSON = {
+    fen: string;
+    // Fused pieces by square, and king fusions by the colour of their king
+    fused: Record<string, FusedPieceJSON>;
+    kingFused: Partial<Record<Color, FusedPieceJSON>>;
+};
+
+// Legacy export strings are version 1 of the serialised board
+export const JSON_VERSION = 2;
+
+/**
+ * Versioned board state, as returned by FusionBoard.toJSON().
+ */
+export type FusionBoardJSON = {
+    version: typeof JSON_VERSION;
+    position: PositionJSON;
+    start: PositionJSON;
+    // Fusion SAN of every recorded move, and how many of them are played on the board
+    moves: string[];
+    cursor: number;
+    rules: RuleSet;
+    chess960: boolean;
+    headers: Record<string, string>;
+};
+
 /**
  * Fusion chess board implementation
  * @author Lucas Bubner, 2023
@@ -42,282 +222,622 @@ export default class FusionBoard extends ChessBoard {
 
     #fused: Record<string, string>;
     #king_fused: Record<string, string>;
+    // Fusion lineage, keyed the same way as the export string (a square, or wK/bK for king fusions)
+    #lineage: Record<string, FusionInfo>;
     #history: Array<Record<string, string>>;
+    // Number of moves from the history that are currently played on the board
+    #cursor: number;
+    // A result that was decided off the board, such as a resignation, and the ply it was decided on
+    #adjudication: { result: GameResult; ply: number } | null;
     #virtual_board: Chess;
-
-    constructor() {
+    #headers: Record<string, string>;
+    #start: string;
+    #rules: RuleSet;
+    // Squares of the rooks that may still castle, as chess.js only knows castling from the corners
+    #castling: Square[];
+    #chess960: boolean;
+    // Positions to return to with unmakeMove(), one for each move played with makeMove()
+    #made: BoardState[];
+    #listeners: ListenerMap;
+    // Events are held back while a whole game is loaded, which announces itself with a single import event
+    #muted: number;
+
+    constructor({ rules = {}, start = DEFAULT_POSITION, chess960 = false }: FusionBoardOptions = {}) {
         super(DEFAULT_POSITION);
+        this.#rules = { ...DEFAULT_RULES, ...rules };
+        this.#castling = [...STANDARD_CASTLING];
+        this.#chess960 = chess960;
+        this.#made = [];
+        this.#listeners = {};
+        this.#muted = 0;
         this.#history = [];
+        this.#cursor = 0;
+        this.#adjudication = null;
+        this.#headers = defaultHeaders();
+        this.#start = DEFAULT_POSITION;
         // Initialise an empty fused board positions
         this.#fused = {};
         this.#king_fused = {};
+        this.#lineage = {};
         // Initialise a virtual board to check for valid moves
         this.#virtual_board = new Chess();
+        if (start !== DEFAULT_POSITION) this.import(start);
     }
 
-    movePiece(movefrom: Square, moveto: Square): Move | false {
-        // Get the target square of the move
-        const targetsquare = this.get(moveto);
-        const sourcesquare = this.get(movefrom);
-        this._updateVirtualBoard();
-        const vTargetSquare = this.#virtual_board.get(moveto);
-        const vSourceSquare = this.#virtual_board.get(movefrom);
-        if (this._willJeopardiseKing(movefrom, moveto)) {
-            return false;
-        }
-
-        const updateHistory = (move: Move) => {
-            // Update history of all boards by appending this move to the history record
-            const ffen = this.export();
-            const fsan = this._convertToFusionSAN(move);
-            this.#history.push({
-                fsan,
-                ffen,
-            });
-        };
+    /**
+     * Subscribe to an event, returning a function that unsubscribes again. Listeners are not copied by clone(),
+     * and moves played with makeMove() emit no events.
+     */
+    on<E extends keyof FusionBoardEvents>(event: E, listener: FusionBoardListener<E>): () => void {
+        const listeners: Array<FusionBoardListener<E>> = this.#listeners[event] ?? [];
+        this.#listeners[event] = listeners as ListenerMap[E];
+        listeners.push(listener);
+        return () => this.off(event, listener);
+    }
 
-        const updateMovement = () => {
-            // Update movement of any pieces that have been fused
-            for (const [square, piece] of Object.entries(this.#fused)) {
-                // Check if the piece is on the same square as the move
-                if (square === movefrom) {
-                    // Remove the piece from the fused board
-                    delete this.#fused[square];
-                    // Add the piece to the new square
-                    this.#fused[moveto] = piece;
-                }
+    off<E extends keyof FusionBoardEvents>(event: E, listener: FusionBoardListener<E>) {
+        const listeners: Array<FusionBoardListener<E>> | undefined = this.#listeners[event];
+        const index = listeners?.indexOf(listener) ?? -1;
+        if (index !== -1) listeners?.splice(index, 1);
+    }
+
+    private _emit<E extends keyof FusionBoardEvents>(event: E, payload: FusionBoardEvents[E]) {
+        if (this.#muted > 0) return;
+        const listeners: Array<FusionBoardListener<E>> = this.#listeners[event] ?? [];
+        for (const listener of [...listeners]) {
+            // A failing listener should not stop the others, or leave the board half way through a move
+            try {
+                listener(payload);
+            } catch (e) {
+                console.error(`Error in ${event} listener`, e);
             }
-            this._updateVirtualBoard();
-        };
+        }
+    }
 
-        const sourcePieceIs = (identifier: string) => {
-            return (
-                (sourcesquare.type === identifier || vSourceSquare.type === identifier) &&
-                pickStrongerPiece(vSourceSquare.type, sourcesquare.type) === identifier
-            );
-        };
+    // Run a bulk change to the board, such as loading a game, without emitting an event for every step
+    private _muted<T>(change: () => T): T {
+        this.#muted++;
+        try {
+            return change();
+        } finally {
+            this.#muted--;
+        }
+    }
 
-        const targetPieceIs = (identifier: string) => {
-            return (
-                (targetsquare.type === identifier || vTargetSquare.type === identifier) &&
-                pickStrongerPiece(vTargetSquare.type, targetsquare.type) === identifier
-            );
-        };
+    /**
+     * Start a new game from a position, keeping the current rules. Chess960 is also enabled automatically
+     * for positions whose castling rights need it.
+     */
+    newGame(start: string = DEFAULT_POSITION, chess960 = false) {
+        // The new game is announced once its position has been imported
+        this._muted(() => this.reset());
+        this.#chess960 = chess960;
+        this.import(start);
+    }
 
-        const pickStrongerPiece = (piece1: PieceSymbol, piece2: PieceSymbol) => {
-            const piece1value = this._getPieceValue(piece1);
-            const piece2value = this._getPieceValue(piece2);
-            return piece1value >= piece2value ? piece1 : piece2;
-        };
+    get chess960(): boolean {
+        return this.#chess960;
+    }
 
-        // Move on the primary board and return the result
-        try {
-            const move = this.move({
-                from: movefrom,
-                to: moveto,
-                promotion: "q",
-            });
+    movePiece(san: string): Move | false;
+    movePiece(movefrom: Square, moveto: Square, promotion?: PieceSymbol): Move | false;
+    movePiece(movefrom: Square | string, moveto?: Square, promotion: PieceSymbol = "q"): Move | false {
+        const result = moveto ? this.tryMove(movefrom as Square, moveto, promotion) : this.tryMove(movefrom);
+        return result.ok ? result.move : false;
+    }
 
-            // Check if the move was a capture, if so, get the type piece on that square
-            if (targetsquare) {
-                // Special logic for king fusion, as we cannot replace the kings on the board
-                if (sourcesquare.type === "k") {
-                    // Remove all standard fusion on that square
-                    delete this.#fused[moveto];
-
-                    // Do not fuse with pawns, and if we have a queen, don't fuse with anything
-                    // Knight-queen-king is not possible to obtain as it would be impossible to checkmate, and the virtual board cannot support two fusions.
-                    if (targetPieceIs("p") || this.#king_fused[sourcesquare.color + "K"] === "q") {
-                        updateMovement();
-                        updateHistory(move);
-                        return move;
-                    }
+    /**
+     * Play a move like movePiece(), but explain why the move was refused instead of only returning false.
+     */
+    tryMove(san: string): MoveResult;
+    tryMove(movefrom: Square, moveto: Square, promotion?: PieceSymbol): MoveResult;
+    tryMove(movefrom: Square | string, moveto?: Square, promotion: PieceSymbol = "q"): MoveResult {
+        // Only moves offered by the native generator are accepted, so the UI and the board always agree
+        const legal = this.generateLegalMoves();
+        let fmove: FusionMove;
+        if (moveto) {
+            // The promotion piece is ignored for moves that cannot promote
+            const found = legal.find(
+                (move) =>
+                    move.from === movefrom && move.to === moveto && (!move.promotion || move.promotion === promotion)
+            );
+            if (!found) return { ok: false, ...this._explainRejection(movefrom as Square, moveto, promotion) };
+            fmove = found;
+        } else {
+            const found = this._parseFusionSAN(movefrom, legal);
+            if (found.length !== 1) return { ok: false, ...this._explainSAN(movefrom, found) };
+            fmove = found[0];
+        }
 
-                    // Assign special fusion to the king
-                    this.#king_fused[sourcesquare.color + "K"] = pickStrongerPiece(
-                        targetsquare.type,
-                        vTargetSquare.type
-                    );
-                    updateHistory(move);
-                    return move;
-                }
+        // SAN depends on the board before the move, while check markers depend on the board after it
+        let fsan = this._convertToFusionSAN(fmove, legal);
+        this._applyMove(fmove);
+        if (this.isInCheck()) {
+            fsan += this.isInCheckmate() ? "#" : "+";
+        }
 
-                // Do not fuse pieces of the same type
-                if (
-                    sourcesquare.type === targetsquare.type ||
-                    vSourceSquare.type === vTargetSquare.type ||
-                    (sourcePieceIs("q") && ((targetPieceIs("r") || targetPieceIs("b") || (targetPieceIs("p")) && !targetPieceIs("n"))))
-                ) {
-                    updateMovement();
-                    updateHistory(move);
-                    return move;
-                }
+        // Update history of all boards by appending this move to the history record
+        // Playing a move from an earlier position replaces the moves that followed it
+        this.#history.splice(this.#cursor);
+        this.#adjudication = null;
+        this.#history.push({
+            fsan,
+            ffen: this.export(),
+        });
+        this.#cursor = this.#history.length;
 
-                // Special fusion on rook and bishop
-                if ((sourcePieceIs("r") && targetPieceIs("b")) || (sourcePieceIs("b") && targetPieceIs("r"))) {
-                    // Replace target square with queen
-                    this.put({ type: "q", color: sourcesquare.color }, moveto);
+        const move = this._toChessMove(fmove, fsan);
+        this._emitMoveEvents(fmove, move);
+        return { ok: true, move };
+    }
 
-                    // Remove all original fusion on both squares
-                    delete this.#fused[movefrom];
-                    delete this.#fused[moveto];
+    // Announce everything a move played on the board did
+    private _emitMoveEvents(fmove: FusionMove, move: Move) {
+        this._emit("move", { move, ply: this.#cursor });
+        if (fmove.captured) {
+            const to = SQUARES.indexOf(fmove.to);
+            const square = fmove.enPassant ? SQUARES[epCaptureIndex(to, fmove.color)] : fmove.to;
+            this._emit("capture", { move, square, piece: fmove.captured, fused: fmove.capturedFused });
+        }
+        // The piece the mover became before anything it captured is fused to it
+        const moved: NonNullable<Cell> = { type: fmove.piece, color: fmove.color, fused: fmove.fused };
+        const landed = fmove.promotion ? promotePiece(moved, fmove.promotion, this.#rules) : moved;
+        if (fmove.promotion) {
+            this._emit("promotion", { move, square: fmove.to, piece: landed.type, fused: landed.fused });
+        }
+        const { piece, fused } = fmove.fusion;
+        if (fmove.captured && (piece !== landed.type || fused !== landed.fused)) {
+            const info = this.getFusionInfo(fmove.to);
+            if (piece === "k" && fused) this._emit("kingFusion", { move, color: fmove.color, fused, info });
+            else this._emit("fusion", { move, square: fmove.to, piece, fused, info });
+        }
+        if (this.isInCheck()) this._emit("check", { color: this.turn() });
+        const result = this.getResult();
+        if (result) this._emit("gameOver", { result });
+    }
 
-                    // I really don't know why this makes it work, but it does
-                    this.load(this.fen());
-                    updateHistory(move);
-                    return move;
-                }
+    /**
+     * Explain why moving from one square to another is not legal, or return null if it is.
+     * Without a promotion piece, a move that is legal with any promotion counts as legal.
+     */
+    explainIllegal(from: Square, to: Square, promotion?: PieceSymbol): MoveRejection | null {
+        const legal = this.generateLegalMoves({ square: from }).some(
+            (move) => move.to === to && (!move.promotion || !promotion || move.promotion === promotion)
+        );
+        return legal ? null : this._explainRejection(from, to, promotion);
+    }
 
-                // Delete any original fusion
-                delete this.#fused[moveto];
-                delete this.#fused[movefrom];
-
-                // Add the captured piece to the fused board
-                if (sourcePieceIs("q") && targetPieceIs("n")) {
-                    // Special case for queen-knight fusion. ensuring it always activates on knights only
-                    this.#fused[moveto] = targetsquare.type === "q" ? "q" : "n";
-                } else {
-                    const chosenPiece = pickStrongerPiece(targetsquare.type, vTargetSquare.type);
-                    if (chosenPiece !== sourcesquare.type)
-                        this.#fused[moveto] = chosenPiece;
-                }
-            }
+    // Work out why a move between two squares is missing from the legal moves, checking the simplest reasons first
+    private _explainRejection(from: Square, to: Square, promotion?: PieceSymbol): MoveRejection {
+        const cells = this._getCells();
+        const index = SQUARES.indexOf(from);
+        const piece = cells[index];
+        const us = this.turn();
+        if (!piece) return { reason: "no-piece", message: `There is no piece on ${from}.` };
+        if (piece.color !== us) return { reason: "wrong-turn", message: `It is ${COLOUR_NAMES[us]}'s turn to move.` };
+
+        const pseudo = this._generatePseudoMoves(cells, from).filter((move) => move.to === to);
+        if (pseudo.some((move) => !exposesKing(cells, move))) {
+            return {
+                reason: "promotion",
+                message: `The ${describePiece(piece)} on ${from} cannot promote to a ${
+                    PIECE_NAMES[promotion as PieceSymbol]
+                } on ${to}.`,
+            };
+        }
+        if (pseudo.length > 0) return this._explainExposure(cells, pseudo[0]);
+
+        // A king moving two files, or onto its own rook in Chess960, is trying to castle
+        const target = SQUARES.indexOf(to);
+        const ontoRook = this.#chess960 && cells[target]?.type === "r" && cells[target]?.color === us;
+        if (piece.type === "k" && index >> 3 === target >> 3 && (ontoRook || Math.abs(target - index) === 2)) {
+            const castling = this._explainCastling(cells, index, target > index ? "k" : "q");
+            if (castling) return castling;
+        }
+        const occupant = cells[target];
+        if (occupant?.color === us) {
+            return { reason: "own-piece", message: `${to} is occupied by your own ${PIECE_NAMES[occupant.type]}.` };
+        }
+        return { reason: "unreachable", message: `The ${describePiece(piece)} on ${from} cannot move to ${to}.` };
+    }
 
-            // Return to the primary board after fusion procedure has completed
-            updateMovement();
-            updateHistory(move);
-            return move;
-        } catch (e) {
-            try {
-                // Move is allegedly illegal, but the virtual board will not account for a fused king (due to the king being replaced)
-                // This is a special case movement, meaning we have to run manual calculations. We run these before the actual virtual board calculations.
-                if (sourcesquare.type === "k" && this.#king_fused[sourcesquare.color + "K"]) {
-                    // Check if the target square is under attack
-                    if (this.isAttacked(moveto, this.opponent())) {
-                        return false;
-                    }
+    // Explain why Fusion SAN did not describe exactly one legal move, given the legal moves it did match
+    private _explainSAN(san: string, matches: FusionMove[]): MoveRejection {
+        if (matches.length > 1) {
+            const squares = matches.map((move) => move.from).join(", ");
+            return { reason: "ambiguous", message: `${san} could be played from any of ${squares}.` };
+        }
+        const clean = san.replace(/[+#?!]+$/, "").replace(/0/g, "O");
+        const cells = this._getCells();
+        if (clean === "O-O" || clean === "O-O-O") {
+            const king = cells.findIndex((cell) => cell?.type === "k" && cell.color === this.turn());
+            const castling = this._explainCastling(cells, king, clean === "O-O" ? "k" : "q");
+            if (castling) return castling;
+        }
+        if (!SAN_PATTERN.test(clean) && clean !== "O-O" && clean !== "O-O-O") {
+            return { reason: "invalid-notation", message: `${san} is not a move in Fusion SAN.` };
+        }
+        // The move may exist, but leave the king in danger
+        const pseudo = this._parseFusionSAN(san, this._generatePseudoMoves(cells));
+        if (pseudo.length === 1) return this._explainExposure(cells, pseudo[0]);
+        return { reason: "no-matching-move", message: `No legal move matches ${san}.` };
+    }
 
-                    const copy = new Chess(this.fen());
-                    // Test to see if the king is being xrayed
-                    copy.remove(movefrom);
-                    copy.put({ type: "k", color: sourcesquare.color }, moveto);
-                    if (copy.isAttacked(moveto, this.opponent())) {
-                        return false;
-                    }
-                    copy.load(this.fen());
-                    // Force replace the king on the board
-                    copy.remove(movefrom);
-                    copy.put(
-                        { type: this.#king_fused[sourcesquare.color + "K"] as PieceSymbol, color: sourcesquare.color },
-                        movefrom
-                    );
+    // Explain a move that is refused because of the attacks on its own king afterwards
+    private _explainExposure(cells: Cell[], move: FusionMove): MoveRejection {
+        const them = move.color === "w" ? "b" : "w";
+        const after = simulateMove(cells, move);
+        const king = after.findIndex((cell) => cell?.type === "k" && cell.color === move.color);
+        const [attacker] = findAttackers(after, king, them);
+        const by = attacker ? describeAttacker(after, attacker) : "the opponent";
+        if (move.piece === "k") {
+            return { reason: "king-exposed", message: `Your king would be attacked on ${SQUARES[king]} by ${by}.` };
+        }
+        const before = cells.findIndex((cell) => cell?.type === "k" && cell.color === move.color);
+        if (isSquareAttacked(cells, before, them)) {
+            return { reason: "king-in-check", message: `Your king is in check, and would still be attacked by ${by}.` };
+        }
+        return { reason: "king-exposed", message: `This move would expose your king to ${by}.` };
+    }
+
+    // Explain why the king cannot castle to one side, or return undefined if it can
+    private _explainCastling(cells: Cell[], from: number, side: "k" | "q"): MoveRejection | undefined {
+        const king = cells[from] as NonNullable<Cell>;
+        const them = king.color === "w" ? "b" : "w";
+        const rooks = this.#castling.filter((rook) => {
+            const index = SQUARES.indexOf(rook);
+            return index >> 3 === from >> 3 && (side === "k" ? index > from : index < from);
+        });
+        const results = rooks.map((rook) => this._getCastlingMove(cells, from, rook, them));
+        if (results.some((result) => "fusion" in result)) return undefined;
+        return (
+            (results[0] as MoveRejection | undefined) ?? {
+                reason: "no-castling-rights",
+                message: `${COLOUR_NAMES[king.color]} can no longer castle ${side === "k" ? "kingside" : "queenside"}.`,
+            }
+        );
+    }
 
-                    this._fixMissingKing(copy);
+    /**
+     * Generate every legal move for the side to move, accounting for primary pieces, fused powers and king fusions.
+     * This is the single source of truth for move legality on the board.
+     */
+    generateLegalMoves({ square }: { square?: Square } = {}): FusionMove[] {
+        const cells = this._getCells();
+        // Discard any move that leaves our king attacked by a primary piece, a fused power or a fused king
+        return this._generatePseudoMoves(cells, square).filter((move) => !exposesKing(cells, move));
+    }
 
-                    // Make movement with new piece
-                    let move: Move | boolean = false;
-                    try {
-                        move = copy.move({
-                            from: movefrom,
-                            to: moveto,
-                            promotion: "q",
+    // Every move the side to move could make if its own king's safety were ignored, apart from castling
+    // which is only generated when the king does not pass through check
+    private _generatePseudoMoves(cells: Cell[], square?: Square): FusionMove[] {
+        const us = this.turn();
+        const them = us === "w" ? "b" : "w";
+        const ep = this.fen().split(" ")[3];
+        const epIndex = ep === "-" ? -1 : SQUARES.indexOf(ep as Square);
+
+        const moves: FusionMove[] = [];
+        for (let from = 0; from < 64; from++) {
+            const cell = cells[from];
+            if (!cell || cell.color !== us) continue;
+            if (square && SQUARES[from] !== square) continue;
+
+            // Primary movement comes first so that a square reachable by both powers is recorded as a primary move
+            const seen = new Set<number>();
+            for (const power of powersOf(cell)) {
+                for (const to of pseudoTargets(cells, from, power, cell.color, epIndex)) {
+                    if (seen.has(to)) continue;
+                    seen.add(to);
+                    const target = cells[to];
+                    const enPassant = power === "p" && to === epIndex && !target;
+                    const captured = enPassant ? cells[epCaptureIndex(to, us)] : target;
+                    const promotions = canPromote(cell, power, captured, to) ? PROMOTIONS : [undefined];
+                    const results = new Set<string>();
+                    for (const promotion of promotions) {
+                        // The pawn promotes as it lands, and the promoted piece is what fuses with any capture
+                        const promoted = promotion ? promotePiece(cell, promotion, this.#rules) : cell;
+                        const result = resolveFusion(promoted, captured, this.#rules);
+                        // Promotions that conflict with the fused piece can collapse into the same result
+                        if (results.has(fusionToString(result))) continue;
+                        results.add(fusionToString(result));
+                        moves.push({
+                            color: us,
+                            from: SQUARES[from],
+                            to: SQUARES[to],
+                            piece: cell.type,
+                            fused: cell.fused,
+                            virtual: power !== cell.type,
+                            captured: captured ? captured.type : undefined,
+                            capturedFused: captured ? captured.fused : undefined,
+                            promotion,
+                            enPassant,
+                            fusion: result,
                         });
-                    } catch (e) {
-                        // Invalid move
-                        return false;
                     }
-                    if (!move) return false;
-
-                    // Force move on primary board by teleporting the king
-                    this.remove(movefrom);
-                    // King fused piece position will update automatically
-                    this.put({ type: "k", color: sourcesquare.color }, moveto);
-
-                    // Force change the turn
-                    const fen = this.fen();
-                    const fenPieces = fen.split(" ");
-                    fenPieces[1] = fenPieces[1] === "w" ? "b" : "w";
-                    this.load(fenPieces.join(" "));
-
-                    updateHistory(move);
-                    return move;
-                } else {
-                    throw new SafeError("not a king movement");
-                }
-            } catch (e) {
-                // Make sure we aren't blundering the king
-                const copy = new ChessBoard(this.fen());
-                copy.remove(movefrom);
-                copy.put({ type: sourcesquare.type, color: sourcesquare.color }, moveto);
-                // Check if our king is under attack, if it is, then it is an illegal move
-                if (copy.kingBeingAttacked(this.turn())) {
-                    return false;
                 }
+            }
 
-                // Check for castling, if we are trying to castle but it failed by the main board, then it has to be illegal.
-                if (
-                    ((movefrom === "e1" && moveto === "g1") ||
-                        (movefrom === "e1" && moveto === "c1") ||
-                        (movefrom === "e8" && moveto === "g8") ||
-                        (movefrom === "e8" && moveto === "c8")) &&
-                    this.get(movefrom).type === "k"
-                ) {
-                    return false;
+            if (cell.type === "k") {
+                for (const rook of this.#castling) {
+                    const castling = this._getCastlingMove(cells, from, rook, them);
+                    if ("fusion" in castling) moves.push(castling);
                 }
+            }
+        }
+        return moves;
+    }
 
-                let move: Move | boolean = false;
-                try {
-                    move = this.#virtual_board.move({
-                        from: movefrom,
-                        to: moveto,
-                        promotion: "q",
-                    });
-                } catch (e) {
-                    return false;
-                }
-                // If the move is valid, then continue the move forcefully
-                if (move) {
-                    copy.load(this.fen());
-                    // Force move on the primary board by updating it's FEN
-                    this.load(this.#virtual_board.fen());
-                    // Change the piece identifier to the inverse, as they will be replaced
-                    if (sourcesquare.type !== "k") this.#fused[movefrom] = copy.get(movefrom).type;
-                    // Update movement of any pieces that have been fused
-                    for (const [square, piece] of Object.entries(this.#fused)) {
-                        // Check if the piece is on the same square as the move
-                        if (square === movefrom) {
-                            // Remove the piece from the fused board
-                            delete this.#fused[square];
-                            if (sourcePieceIs("q") && (sourcesquare.type === "n" || vSourceSquare.type === "n")) {
-                                // Do not fuse queen-knight fusions
-                                this.#fused[moveto] = sourcesquare.type === "q" ? "q" : "n";
-                                continue;
-                            }
-                            // Add the piece to the new square
-                            let shouldFuse = pickStrongerPiece(piece as PieceSymbol, targetsquare.type);
-                            shouldFuse = pickStrongerPiece(shouldFuse, vTargetSquare.type);
-                            // Don't fuse pieces that are the same
-                            if (shouldFuse === vSourceSquare.type)
-                                continue;
-                            this.#fused[moveto] = shouldFuse;
-                        } else if (square !== moveto) {
-                            // For fused pieces that are not affected by this move, we need to
-                            // update them back to their original state as they likely were mutated
-                            this.put(
-                                {
-                                    type: copy.get(square as Square).type,
-                                    color: copy.get(square as Square).color,
-                                },
-                                square as Square
-                            );
-                        }
-                    }
-                }
-                this._updateVirtualBoard();
-                updateHistory(move);
-                return move;
+    // Castle with the rook on the given square, or explain why the king cannot
+    private _getCastlingMove(cells: Cell[], from: number, rookSquare: Square, them: Color): FusionMove | MoveRejection {
+        const king = cells[from] as NonNullable<Cell>;
+        const rank = king.color === "w" ? 56 : 0;
+        const rookFrom = SQUARES.indexOf(rookSquare);
+        const rook = cells[rookFrom];
+        // Whichever files the king and rook start on, they finish on the usual castling squares
+        const side = rookFrom > from ? "k" : "q";
+        if (
+            Math.floor(from / 8) !== rank / 8 ||
+            !rook ||
+            rook.type !== "r" ||
+            rook.color !== king.color ||
+            Math.floor(rookFrom / 8) !== rank / 8
+        ) {
+            return {
+                reason: "no-castling-rights",
+                message: `${COLOUR_NAMES[king.color]} can no longer castle ${side === "k" ? "kingside" : "queenside"}.`,
+            };
+        }
+        if (isSquareAttacked(cells, from, them)) {
+            return { reason: "castling-out-of-check", message: "The king cannot castle out of check." };
+        }
+        const kingTo = rank + (side === "k" ? 6 : 2);
+        const rookTo = rank + (side === "k" ? 5 : 3);
+        // Every square either piece crosses must be empty apart from the king and rook themselves
+        const ends = [from, kingTo, rookFrom, rookTo];
+        const blocker = squaresBetween(Math.min(...ends), Math.max(...ends)).find(
+            (index) => index !== from && index !== rookFrom && cells[index]
+        );
+        if (blocker !== undefined) {
+            const piece = PIECE_NAMES[(cells[blocker] as NonNullable<Cell>).type];
+            return {
+                reason: "castling-blocked",
+                message: `Castling is blocked by the ${piece} on ${SQUARES[blocker]}.`,
+            };
+        }
+        // and the king may not pass through an attacked square
+        const attacked = squaresBetween(from, kingTo).find((index) => isSquareAttacked(cells, index, them));
+        if (attacked !== undefined) {
+            const [attacker] = findAttackers(cells, attacked, them);
+            const by = attacker ? ` by ${describeAttacker(cells, attacker)}` : "";
+            return {
+                reason: "castling-through-check",
+                message: `The king cannot castle through ${SQUARES[attacked]}, which is attacked${by}.`,
+            };
+        }
+        return {
+            color: king.color,
+            from: SQUARES[from],
+            // Chess960 castling is written as the king moving onto its rook, as it may not move otherwise
+            to: SQUARES[this.#chess960 ? rookFrom : kingTo],
+            piece: "k",
+            fused: king.fused,
+            virtual: false,
+            enPassant: false,
+            castling: side,
+            rook: rookSquare,
+            fusion: { piece: "k", fused: king.fused },
+        };
+    }
+
+    // Commit a generated move to the primary board, fused pieces and king fusions
+    private _applyMove(move: FusionMove) {
+        const before = this._getCells();
+        const cells = simulateMove(before, move);
+        const from = SQUARES.indexOf(move.from);
+        const to = SQUARES.indexOf(move.to);
+        const chess = this as unknown as ChessState;
+
+        // Moving the king or moving/capturing on a rook's original square removes castling rights
+        const backRank = move.color === "w" ? "1" : "8";
+        this.#castling = this.#castling.filter(
+            (rook) => !(move.piece === "k" && rook[1] === backRank) && rook !== move.from && rook !== move.to
+        );
+
+        // Only double pawn pushes leave an en passant square behind
+        const isPawnMove = movedPower(move) === "p";
+        const ep = isPawnMove && Math.abs(to - from) === 16 ? SQUARES[(from + to) / 2] : "-";
+
+        this.#fused = {};
+        this.#king_fused = {};
+        this.#lineage = {};
+        for (let i = 0; i < 64; i++) {
+            const cell = cells[i];
+            if (!cell?.fused) continue;
+            const key = cell.type === "k" ? `${cell.color}K` : SQUARES[i];
+            if (cell.type === "k") {
+                this.#king_fused[key] = cell.fused;
+            } else {
+                this.#fused[key] = cell.fused;
             }
+            // Pieces that were not involved in the move keep their lineage as it was, and castling never fuses
+            const info = i === to && !move.castling ? this._resolveLineage(move, before) : cell.info;
+            if (info) this.#lineage[key] = info;
         }
+
+        // The primary board is written directly, as load() would parse a FEN and rebuild every square
+        Object.assign(
+            chess,
+            cellsToChessState(cells, {
+                turn: move.color === "w" ? "b" : "w",
+                castling: castlingToString(this.#castling, cellsToPlacement(cells), true),
+                ep,
+                halfMoves: move.captured || isPawnMove ? 0 : chess._halfMoves + 1,
+                moveNumber: move.color === "b" ? chess._moveNumber + 1 : chess._moveNumber,
+            })
+        );
+    }
+
+    /**
+     * Play a move from generateLegalMoves() without recording it in the history, so that it can be taken back
+     * with unmakeMove(). Intended for looking ahead in perft and search, where the move is known to be legal.
+     */
+    makeMove(move: FusionMove) {
+        this.#made.push(this._saveState());
+        this._applyMove(move);
+    }
+
+    // Take back the last move played with makeMove(), returning false if there is none
+    unmakeMove(): boolean {
+        const state = this.#made.pop();
+        if (!state) return false;
+        this._restoreState(state);
+        return true;
+    }
+
+    /**
+     * Copy the board with its history, rules and headers, without going through an export string.
+     * Moves played with makeMove() stay on the copy, but can only be taken back on the original.
+     */
+    clone(): FusionBoard {
+        const copy = new FusionBoard({ rules: this.#rules, chess960: this.#chess960 });
+        copy._restoreState(this._saveState());
+        copy.#history = this.#history.map((entry) => ({ ...entry }));
+        copy.#cursor = this.#cursor;
+        copy.#adjudication = this.#adjudication;
+        copy.#headers = { ...this.#headers };
+        copy.#start = this.#start;
+        return copy;
+    }
+
+    // Snapshot the position, copying anything that a later move could change in place
+    private _saveState(): BoardState {
+        const chess = this as unknown as ChessState;
+        return {
+            chess: {
+                _board: chess._board.slice(),
+                _kings: { ...chess._kings },
+                _turn: chess._turn,
+                _castling: { ...chess._castling },
+                _epSquare: chess._epSquare,
+                _halfMoves: chess._halfMoves,
+                _moveNumber: chess._moveNumber,
+            },
+            fused: { ...this.#fused },
+            kingFused: { ...this.#king_fused },
+            lineage: { ...this.#lineage },
+            castling: [...this.#castling],
+        };
+    }
+
+    // Return to a snapshot, which then belongs to the board
+    private _restoreState(state: BoardState) {
+        Object.assign(this as unknown as ChessState, state.chess);
+        this.#fused = state.fused;
+        this.#king_fused = state.kingFused;
+        this.#lineage = state.lineage;
+        this.#castling = state.castling;
+    }
+
+    // Work out the lineage of the fused power standing on the target square after a move
+    private _resolveLineage(move: FusionMove, before: Cell[]): FusionInfo {
+        const piece = move.fusion.fused as PieceSymbol;
+        const mover = before[SQUARES.indexOf(move.from)] as NonNullable<Cell>;
+        const captured = before[SQUARES.indexOf(move.to) + (move.enPassant ? (move.color === "w" ? 8 : -8) : 0)];
+        const ply = this._getPly() + 1;
+
+        // The moving piece kept its power
+        if (mover.info && piece === mover.fused) {
+            return { ...mover.info, piece };
+        }
+        // The power of a captured fused piece is passed along its capture chain
+        if (captured?.info && piece === captured.fused && piece !== captured.type) {
+            return { ...captured.info, ply, chain: [...captured.info.chain, move.to] };
+        }
+        // Otherwise this is a new fusion with a captured piece
+        const color = captured?.color ?? (move.color === "w" ? "b" : "w");
+        return { piece, color, origin: move.to, ply, chain: [move.to] };
+    }
+
+    // Number of half moves played since the start of the game, according to the primary board
+    private _getPly(): number {
+        const [, turn, , , , fullmoves] = this.fen().split(" ");
+        return (parseInt(fullmoves) - 1) * 2 + (turn === "b" ? 1 : 0);
+    }
+
+    /**
+     * Get where the fused power on a square came from. Squares holding a king return its king fusion.
+     */
+    getFusionInfo(square: Square): FusionInfo | undefined {
+        const piece = this.get(square);
+        if (!piece) return undefined;
+        return this.#lineage[piece.type === "k" ? `${piece.color}K` : square];
+    }
+
+    /**
+     * Get the fused power of the piece on a square. Squares holding a king return its king fusion.
+     */
+    getFusedPiece(square: Square): PieceSymbol | undefined {
+        const piece = this.get(square);
+        if (!piece) return undefined;
+        const fused = piece.type === "k" ? this.#king_fused[`${piece.color}K`] : this.#fused[square];
+        return fused as PieceSymbol | undefined;
+    }
+
+    /**
+     * Draw the board as text in the same layout as chess.js, with each fused power written after its piece.
+     * For example, Nq is a white knight fused with a queen and kr is a black king fused with a rook.
+     */
+    ascii(): string {
+        let s = "   +------------------------+\n";
+        SQUARES.forEach((square, index) => {
+            if (index % 8 === 0) s += ` ${square[1]} |`;
+            const piece = this.get(square);
+            if (piece) {
+                const symbol = (type: string) => (piece.color === "w" ? type.toUpperCase() : type);
+                const fused = this.getFusedPiece(square);
+                s += ` ${symbol(piece.type)}${fused ? symbol(fused) : " "}`;
+            } else {
+                s += " . ";
+            }
+            if (index % 8 === 7) s += "|\n";
+        });
+        s += "   +------------------------+\n";
+        s += "     a  b  c  d  e  f  g  h";
+        return s;
+    }
+
+    // Read the current board into cells, attaching fused powers and king fusions to their pieces
+    private _getCells(): Cell[] {
+        return SQUARES.map((square) => {
+            const piece = this.get(square);
+            if (!piece) return null;
+            const key = piece.type === "k" ? `${piece.color}K` : square;
+            const fused = piece.type === "k" ? this.#king_fused[key] : this.#fused[key];
+            const info = this.#lineage[key];
+            return { type: piece.type, color: piece.color, fused: fused as PieceSymbol | undefined, info };
+        });
+    }
+
+    // Represent a generated move in the chess.js move format for existing callers
+    private _toChessMove(move: FusionMove, san: string): Move {
+        let flags = "";
+        if (move.enPassant) flags += "e";
+        else if (move.captured) flags += "c";
+        if (move.castling) flags += move.castling;
+        if (move.promotion) flags += "p";
+        const distance = Math.abs(SQUARES.indexOf(move.to) - SQUARES.indexOf(move.from));
+        if (movedPower(move) === "p" && distance === 16) flags += "b";
+        return {
+            color: move.color,
+            from: move.from,
+            to: move.to,
+            piece: move.piece,
+            captured: move.captured,
+            promotion: move.promotion,
+            flags: flags || "n",
+            san,
+            lan: move.from + move.to + (move.promotion ?? ""),
+        };
     }
 
     /**
@@ -327,6 +847,7 @@ export default class FusionBoard extends ChessBoard {
      * 3: Pieces fused at the king's position
      */
     get positions(): [string, Record<string, string>, string, Record<Color, string>] {
+        this._updateVirtualBoard();
         return [this.fen(), this.#fused, this.#virtual_board.fen(), this.#king_fused];
     }
 
@@ -336,9 +857,9 @@ export default class FusionBoard extends ChessBoard {
             if (!piece) continue;
             const [square, pieceName] = piece.split("=");
             if (square === "wK" || square === "bK") continue;
-            this.#fused[square] = pieceName.toLowerCase();
+            // Any lineage after the piece is handled by import()
+            this.#fused[square] = pieceName.split(":")[0].toLowerCase();
         }
-        this._updateVirtualBoard();
     }
 
     set king_fused(fused: string[]) {
@@ -346,36 +867,65 @@ export default class FusionBoard extends ChessBoard {
             if (!piece) continue;
 
             const [color, pieceName] = piece.split("=");
-            this.#king_fused[color] = pieceName.toLowerCase();
+            this.#king_fused[color] = pieceName.split(":")[0].toLowerCase();
         }
     }
 
     reset() {
         super.reset();
+        this.#castling = [...STANDARD_CASTLING];
+        this.#chess960 = false;
+        this.#made = [];
         this.#fused = {};
         this.#king_fused = {};
+        this.#lineage = {};
         this.#history = [];
-        this._updateVirtualBoard();
+        this.#cursor = 0;
+        this.#adjudication = null;
+        this.#headers = defaultHeaders();
+        this.#start = DEFAULT_POSITION;
+        this._emit("import", { position: this.export() });
     }
 
     // Choosing not to override the original method as it is not necessary
-    undoMove() {
-        // Remove last move from history
-        this.#history.pop();
+    // The move stays in the history so it can be played again with redo()
+    undoMove(): boolean {
+        return this.goToPly(this.#cursor - 1);
+    }
 
-        // Reset the game if we run out of history
-        if (this.#history.length === 0) {
-            this.reset();
-            return;
-        }
+    redo(): boolean {
+        return this.goToPly(this.#cursor + 1);
+    }
 
-        // Load the previous position
-        this.import(
-            // Remove any trailing whitespace from the fen and load it
-            this.#history[this.#history.length - 1].ffen.replace(/^\s+|\s+$/g, "")
-        );
+    /**
+     * Move the board to the position after the given number of moves in the history, where 0 is the start position.
+     * Returns false if there is no such position.
+     */
+    goToPly(ply: number): boolean {
+        if (!Number.isInteger(ply) || ply < 0 || ply > this.#history.length) return false;
+        const previous = this.#cursor;
+        this.#cursor = ply;
+        // Return to the starting position if we run out of history, otherwise load the position after that move
+        this._loadExport(ply === 0 ? this.#start : this.#history[ply - 1].ffen.trim());
+        if (ply < previous) this._emit("undo", { ply });
+        if (ply > previous) this._emit("redo", { ply });
+        return true;
+    }
+
+    get canUndo(): boolean {
+        return this.#cursor > 0;
+    }
+
+    get canRedo(): boolean {
+        return this.#cursor < this.#history.length;
     }
 
+    // Number of moves from the history that are currently played on the board
+    getCursor(): number {
+        return this.#cursor;
+    }
+
+    // Every recorded move, including any that are ahead of the cursor after an undo
     getHistory(): Array<Record<string, string>> {
         return this.#history;
     }
@@ -386,250 +936,72 @@ export default class FusionBoard extends ChessBoard {
     moves({ verbose, square }: { verbose: false; square?: Square }): string[];
     moves({ verbose, square }: { verbose?: boolean; square?: Square }): string[] | Move[];
     moves({ verbose = false, square = undefined }: { verbose?: boolean; square?: Square } = {}) {
-        // Get the moves that chess.ts would normally return, and run additional filtering for fusion positions
-        const moves = (super.moves({ verbose, square }) as Array<string | Move>).filter((move: Move | string) => {
-            if (verbose && typeof move === "object") {
-                if (this._willJeopardiseKing(move.from, move.to)) {
-                    return false;
-                }
-            } else {
-                // SAN strings are not implemented because we cannot extract source square data easily, which is required
-                // for checking specific game states. This is because the SAN string does not contain the source square.
-                throw new Error("san strings are not currently implemented");
-            }
-            return true;
-        });
+        // Every move is described in Fusion SAN, with check markers found by playing the move on a copy
+        const legal = this.generateLegalMoves();
+        const moves = legal
+            .filter((move) => !square || move.from === square)
+            .map((move) => {
+                const san = this._convertToFusionSAN(move, legal) + this._getCheckSuffix(move);
+                return verbose ? this._toChessMove(move, san) : san;
+            });
 
         return verbose ? (moves as Move[]) : (moves as string[]);
     }
 
     _getPieceValue(piece: PieceSymbol) {
-        switch (piece) {
-            case "k":
-                return 1000;
-            case "q":
-                return 9;
-            case "r":
-                return 5;
-            case "b":
-                return 3;
-            case "n":
-                return 3;
-            case "p":
-                return 1;
-            default:
-                return 0;
-        }
-    }
-
-    _willJeopardiseKing(movefrom: string, moveto: string, iteration: string | false = false): boolean {
-        this._updateVirtualBoard();
-
-        // PASS: king legal move test: rnb5/pp1k3p/2p1r1p1/8/5n2/8/PPPPB1PP/RNBQK1NR w - - 0 13 f4=q,
-        // PASS: king fusion movement test: 8/pp1K1k1p/6p1/2p5/3P4/8/PPP4P/RN4NR b - - 4 36 wK=r,
-        // PASS: king fusion check test: rBb5/pp2k2p/6p1/2p5/8/3P4/PPP4P/RN2K1NR b - - 11 27 b8=n,wK=r,
-
-        // Use extended Chess class
-        const copy = new ChessBoard(iteration ? iteration : this.#virtual_board.fen());
-        // Whenever we run this function, run it once again with recursion to ensure we have checked the normal board too
-        const recursiveAction = iteration ? false : this._willJeopardiseKing(movefrom, moveto, this.fen());
-
-        // Check for castling
-        if (
-            ((movefrom === "e1" && moveto === "g1") ||
-                (movefrom === "e1" && moveto === "c1") ||
-                (movefrom === "e8" && moveto === "g8") ||
-                (movefrom === "e8" && moveto === "c8")) &&
-            this.#virtual_board.get(movefrom).type === "k"
-        ) {
-            if (this.isInCheck()) return true;
-            copy.remove(movefrom as Square);
-            let willFusedKingInterfere = false;
-            // Check if the king moves through check, and also check if a fused king is attacking castling squares
-            switch (moveto) {
-                case "g1":
-                    copy.put({ type: "k", color: "w" }, "f1");
-                    willFusedKingInterfere = this.isKingChecking(movefrom, "f1");
-                    break;
-                case "g8":
-                    copy.put({ type: "k", color: "b" }, "f8");
-                    willFusedKingInterfere = this.isKingChecking(movefrom, "f8");
-                    break;
-                case "c1":
-                    copy.put({ type: "k", color: "w" }, "d1");
-                    willFusedKingInterfere = this.isKingChecking(movefrom, "d1");
-                    break;
-                case "c8":
-                    copy.put({ type: "k", color: "b" }, "d8");
-                    willFusedKingInterfere = this.isKingChecking(movefrom, "d8");
-                    break;
-            }
-            return copy.isCheck() || willFusedKingInterfere || this.isKingChecking(movefrom, moveto) || recursiveAction;
-        }
-
-        try {
-            // Check if the move will put the king in jeopardy by forcing the move on the board
-            const target = copy.get(movefrom as Square);
-            copy.remove(movefrom as Square);
-            copy.put({ type: target.type, color: target.color }, moveto as Square);
-
-            if (copy.kingBeingAttacked(copy.turn()) || this.isKingChecking(movefrom, moveto)) {
-                throw new SafeError("king is in jeopardy");
-            }
-        } catch (e) {
-            if (e instanceof SafeError) {
-                return true;
-            }
-        }
-
-        return false || recursiveAction;
+        return PIECE_VALUES[piece] ?? 0;
     }
 
-    isKingChecking(movefrom?: string, moveto?: string): boolean {
-        if (this.#king_fused[`${this.opponent()}K`]) {
-            // Make sure that the opponent's king is not in check
-            const opponentking = this.findKing(this.opponent());
-            const copy = new Chess(this.fen());
-            if (movefrom) {
-                // Force move on the board as it will register as an invalid move.
-                // We do not have to worry about the actual validity as the calling function will already confirm legality
-                const origin = copy.get(movefrom as Square);
-                copy.remove(movefrom as Square);
-                copy.put(origin, moveto as Square);
-            }
-            copy.remove(opponentking as Square);
-            copy.put(
-                {
-                    type: this.#king_fused[`${this.opponent()}K`] as PieceSymbol,
-                    color: this.opponent(),
-                },
-                opponentking as Square
-            );
-
-            return copy.isCheck();
-        }
-        return false;
+    // Returns in UCI format an array of every possible move, including king fusion, standard fusion, and standard moves
+    getEveryMove(square?: Square): string[] {
+        const moves = this.generateLegalMoves({ square }).map((move) => move.from + move.to);
+        // A promotion and a fused power may reach the same square, which is still only one UCI move
+        return [...new Set(moves)];
     }
 
-    _getKingFusedMoves(): string[] {
-        // Make a new copy of the entire board, accounting for virtual positions
-        const copy = new FusionBoard();
-        copy.load(this.fen());
-        copy.#fused = this.#fused;
-        copy._updateVirtualBoard();
+    /**
+     * Count the leaf nodes of the legal move tree to the given depth, following the fusion rules.
+     * Used to verify move generation against the reference positions in tools/perftSuite.ts.
+     */
+    perft(depth: number): number {
+        return Object.values(this.divide(depth)).reduce((total, nodes) => total + nodes, depth === 0 ? 1 : 0);
+    }
 
-        if (!this.#king_fused[`${this.turn()}K`]) {
-            return [];
+    // Perft split by root move in UCI format, for finding where move generation differs from a reference
+    divide(depth: number): Record<string, number> {
+        const counts: Record<string, number> = {};
+        if (depth === 0) return counts;
+        for (const move of this.generateLegalMoves()) {
+            const uci = move.from + move.to + (move.promotion ?? "");
+            this.makeMove(move);
+            counts[uci] = (counts[uci] ?? 0) + this._countLeaves(depth - 1);
+            this.unmakeMove();
         }
-
-        const king = this.findKing(this.turn());
-        // Replace king with the fused piece
-        copy.remove(king as Square);
-        copy.put(
-            {
-                type: this.#king_fused[`${this.turn()}K`] as PieceSymbol,
-                color: this.turn(),
-            },
-            king as Square
-        );
-
-        this._fixMissingKing(copy);
-
-        // Get the moves for the king
-        const swappedMoves = copy.moves({ square: king, verbose: true });
-
-        // Filter the moves to only include the moves that are valid for the current fused pieces
-        const runningCopy = new Chess(this.fen());
-        const filteredMoves = swappedMoves.filter((move) => {
-            // Move the king first in a simulation
-            runningCopy.remove(king as Square);
-            runningCopy.put({ type: "k", color: this.opponent() }, move.to as Square);
-            if (runningCopy.isAttacked(move.to, this.opponent())) {
-                return false;
-            } else {
-                runningCopy.load(this.fen());
-            }
-            // Check if the square is endangered
-            if (copy.isAttacked(move.to, copy.opponent())) {
-                return false;
-            }
-            return true;
-        });
-        // Return the moves
-        return filteredMoves.map((move) => move.from + move.to);
-    }
-
-    getFusedMoves(fused: Array<string>, hovering: string): string[] {
-        const target = this.get(fused[0] as Square);
-        if (target.type === "k" && target.color === this.turn()) {
-            // Run simulations on king movement
-            return this._getKingFusedMoves();
-        }
-        // Get the moves for the current fused pieces
-        const moves = this.#virtual_board.moves({ square: fused[0] as Square, verbose: true });
-        // Filter the moves to only include the moves that are valid for the current fused pieces
-        const filteredMoves = moves.filter((move) => {
-            if (this._willJeopardiseKing(move.from, move.to)) {
-                return false;
-            }
-            // Check if the move is a capture
-            if (move.captured) {
-                // Check if the captured piece is in the fused pieces
-                if (fused.includes(move.captured)) {
-                    // Check if the piece is not the piece that is currently being hovered
-                    if (move.captured !== hovering) {
-                        // If the piece is not the piece that is currently being hovered, then the move is valid
-                        return true;
-                    }
-                }
-            }
-            // If the move is not a capture, then it is valid
-            return true;
-        });
-        // Return the filtered moves in UCI format
-        return filteredMoves.map((move) => move.from + move.to);
+        return counts;
     }
 
-    // Returns in UCI format an array of every possible move, including king fusion, standard fusion, and standard moves
-    getEveryMove(): string[];
-    getEveryMove(square?: Square): string[] {
-        this._updateVirtualBoard();
-        // Returns all possible moves for a given position, useful for any type of validating legal moves
-        const mainBoard = this.moves({ square: square, verbose: true });
-        const virtualBoard = this.#virtual_board.moves({ square: square, verbose: true });
-
-        let kingFusion: string[] = [];
-        if (this.#king_fused[`${this.turn()}K`]) {
-            kingFusion = this._getKingFusedMoves();
-        }
-
-        // Congegrate all moves into one array
-        const moves = [
-            ...mainBoard.map((move) => move.from + move.to),
-            ...virtualBoard.map((move) => move.from + move.to),
-            ...kingFusion,
-        ];
-
-        // Moves are in UCI format
-        const validMoves = moves.filter((move) => {
-            return !(
-                this._willJeopardiseKing(move.slice(0, 2), move.slice(2, 4)) ||
-                this.isKingChecking(move.slice(0, 2), move.slice(2, 4))
-            );
-        });
-
-        return validMoves;
+    private _countLeaves(depth: number): number {
+        if (depth === 0) return 1;
+        const moves = this.generateLegalMoves();
+        if (depth === 1) return moves.length;
+        let nodes = 0;
+        for (const move of moves) {
+            this.makeMove(move);
+            nodes += this._countLeaves(depth - 1);
+            this.unmakeMove();
+        }
+        return nodes;
     }
 
     // A fused piece might lose it's cohesion square in circumstances such as a king capture
     // or similar where there are multiple fused pieces. This function is called when a fused square is missing.
     reportMissingFusedPiece(iterator: Square) {
         delete this.#fused[iterator];
-        this._updateVirtualBoard();
+        delete this.#lineage[iterator];
     }
 
     private _updateVirtualBoard() {
-        // Update the virtual board to reflect the current fused pieces
+        // Update the virtual board to reflect the current fused pieces, which is only needed when it is read
         try {
             this.#virtual_board.load(this.fen());
             for (const [square, piece] of Object.entries(this.#fused)) {
@@ -645,165 +1017,483 @@ export default class FusionBoard extends ChessBoard {
         }
     }
 
-    // Fix a copy board from complaining of a nonexistent king.
-    // This is an incredibly crappy solution but chess.move() doesn't work without a king.
-    // Lord forgive me for the lines I am about to write.
-    private _fixMissingKing(copy: Chess) {
-        // We need to put the king on the board to make a valid move so we're going to put it on the closest empty safe square
-        // We invert the squares depending on the turn to avoid putting the king on the other side of the board
-        // There is also a check to see if we pin ourselves by a nonexistent king, if so, we don't put the king on that square
-        const boardSquares = this.turn() === "w" ? SQUARES.reverse() : SQUARES;
-
-        const pinningOurselves = (putking: Square) => {
-            // Yet Another Board Copy™
-            const clone = new Chess(this.fen());
-
-            // Put the king on the square we're testing
-            clone.remove(this.findKing(this.turn()));
-            clone.put({ type: "k", color: this.turn() }, putking);
-
-            // Remove every other piece from the board that is our colour
-            for (const square of SQUARES) {
-                const piece = clone.get(square);
-                if (piece && piece.color === this.turn() && piece.type !== "k") {
-                    clone.remove(square);
-                }
-            }
-
-            // Check if the king is in check, if so, we have pinned ourselves in some way
-            return clone.isCheck();
-        };
-
-        for (const square of boardSquares) {
-            if (
-                !copy.get(square) &&
-                !copy.isAttacked(square, copy.turn() === "w" ? "b" : "w") &&
-                !pinningOurselves(square)
-            ) {
-                copy.put({ type: "k", color: this.turn() }, square as Square);
-                return;
-            }
-        }
-        // We'll have to settle for any square if they're all attacked for some reason. It should probably be check/stalemate at this point.
-        copy.put({ type: "k", color: this.turn() }, SQUARES[Math.floor(Math.random() * SQUARES.length)] as Square);
-        throw new Error("failed to find a safe square for king virtualisation");
-    }
-
     isInStalemate() {
-        return !this.isInCheck() && this.getEveryMove().length === 0;
+        return !this.isInCheck() && this.generateLegalMoves().length === 0;
     }
 
     // Cannot override isCheck, isStalemate, isCheckmate as it is used internally, causing a circular dependency
     isInCheck() {
-        return this.isCheck() || this.#virtual_board.isCheck() || this.isKingChecking();
+        return this.isAttacked(this.findKing(this.turn()), this.opponent());
     }
 
     isInCheckmate() {
-        return this.isInCheck() && this.getEveryMove().length === 0;
+        return this.isInCheck() && this.generateLegalMoves().length === 0;
     }
 
     isDraw() {
-        return super.isDraw() || this.isStalemate();
+        // The inherited stalemate check only sees the primary board, so it cannot be used here
+        return (
+            this._isFiftyMoves() ||
+            this.isInStalemate() ||
+            this.isInsufficientMaterial() ||
+            this.isThreefoldRepetition()
+        );
+    }
+
+    private _isFiftyMoves(): boolean {
+        return parseInt(this.fen().split(" ")[4]) >= 100;
+    }
+
+    // The inherited check compares plain FENs from the chess.js history, which is reset on every move
+    // Positions are instead compared with their fused pieces, using the Fusion history up to the cursor
+    isThreefoldRepetition(): boolean {
+        const current = positionKey(this.export());
+        const positions = [this.#start, ...this.#history.slice(0, this.#cursor).map(({ ffen }) => ffen)];
+        return positions.filter((ffen) => positionKey(ffen) === current).length >= 3;
     }
 
     isInsufficientMaterial() {
-        // Make sure not to call a draw for insufficient material if the king is fused
+        // Make sure not to call a draw for insufficient material if the king or any other piece is fused,
+        // as a lone bishop or knight fused with a rook or queen can mate
         // This may still be insufficient material, but 50-move rule should take care of it
-        return super.isInsufficientMaterial() && Object.entries(this.#king_fused).length === 0;
+        const fused = Object.keys(this.#fused).length + Object.keys(this.#king_fused).length;
+        return super.isInsufficientMaterial() && fused === 0;
     }
 
     isGameOver() {
-        return this.isInCheckmate() || this.isDraw();
+        return this.getResult() !== null;
     }
 
-    isAttacked(square: Square, colour: Color): boolean {
-        return super.isAttacked(square, colour) || this.#virtual_board.isAttacked(square, colour);
+    /**
+     * Get how the game ended at the current position, or null if it is still being played.
+     */
+    getResult(): GameResult | null {
+        const opponent = this.opponent();
+        if (this.isInCheckmate()) return { winner: opponent, reason: "checkmate" };
+        if (this.isInStalemate()) return { winner: null, reason: "stalemate" };
+        if (this.isThreefoldRepetition()) return { winner: null, reason: "repetition" };
+        if (this.isInsufficientMaterial()) return { winner: null, reason: "insufficient" };
+        if (this._isFiftyMoves()) return { winner: null, reason: "fifty-move" };
+        if (this.#adjudication?.ply === this.#cursor) return this.#adjudication.result;
+        return null;
     }
 
-    private _convertToFusionSAN(move: Move): string {
-        const primarySquare = this.get(move.to);
-        const virtualSquare = this.#virtual_board.get(move.to);
-        const isAVirtualMove = primarySquare.type !== virtualSquare.type;
+    // End the game with a loss for a side that resigned, or that ran out of time
+    resign(colour: Color): boolean {
+        return this._adjudicate({ winner: colour === "w" ? "b" : "w", reason: "resign" });
+    }
 
-        let virtualType: PieceSymbol = virtualSquare.type;
-        if (primarySquare.type === "k" && this.#king_fused[`${move.color}K`]) {
-            // Virtual square will not be represented on the virtual board
-            // We need to get the virtual square from the king_fused record
-            virtualType = this.#king_fused[`${move.color}K`] as PieceSymbol;
-        }
+    loseOnTime(colour: Color): boolean {
+        return this._adjudicate({ winner: colour === "w" ? "b" : "w", reason: "timeout" });
+    }
 
-        // If this is a stock move, we can use the normal SAN as it is not a fusion move
-        if (!isAVirtualMove) return move.san;
+    private _adjudicate(result: GameResult): boolean {
+        if (this.isGameOver()) return false;
+        this.#adjudication = { result, ply: this.#cursor };
+        this._emit("gameOver", { result });
+        return true;
+    }
 
-        // Otherwise, fuse the two pieces in the form <main piece><virtual piece><captured?><to><check?>
-        // prettier-ignore
-        let fusionSAN = `${primarySquare.type.toUpperCase()}${virtualType.toUpperCase()}${move.captured ? "x" : ""}${move.to}`;
+    isAttacked(square: Square, colour: Color): boolean {
+        // Includes attacks made through fused powers and king fusions
+        return isSquareAttacked(this._getCells(), SQUARES.indexOf(square), colour);
+    }
 
-        // Add check or checkmate if applicable
-        if (this.isInCheck()) {
-            fusionSAN += this.isInCheckmate() ? "#" : "+";
+    /**
+     * List every piece attacking a square, through its own movement, a fused power or a king fusion.
+     * Pieces of both colours are listed unless a colour is given, so defenders of a piece are included.
+     */
+    getAttackers(square: Square, colour?: Color): Attacker[] {
+        const cells = this._getCells();
+        const colours: Color[] = colour ? [colour] : ["w", "b"];
+        return colours.flatMap((by) =>
+            findAttackers(cells, SQUARES.indexOf(square), by).map((attacker) => toAttacker(cells, attacker))
+        );
+    }
+
+    /**
+     * Every square attacked by a colour, with the pieces attacking it. Squares that are not attacked are left out.
+     */
+    attackMap(colour: Color): Partial<Record<Square, Attacker[]>> {
+        const cells = this._getCells();
+        const map: Partial<Record<Square, Attacker[]>> = {};
+        cells.forEach((cell, from) => {
+            if (!cell || cell.color !== colour) return;
+            for (const power of powersOf(cell)) {
+                for (const to of attackTargets(cells, from, power, colour)) {
+                    (map[SQUARES[to]] ??= []).push(toAttacker(cells, { from, power }));
+                }
+            }
+        });
+        return map;
+    }
+
+    // Convert a generated move to Fusion SAN, without any check or checkmate marker
+    private _convertToFusionSAN(move: FusionMove, moves: FusionMove[] = [move]): string {
+        if (move.castling) return move.castling === "k" ? "O-O" : "O-O-O";
+        const capture = move.captured ? "x" : "";
+        const promotion = move.promotion ? `=${fusionToString(move.fusion)}` : "";
+
+        // Fused pieces take the form <main piece><virtual piece><captured?><to>, and pawns use no designator
+        const designator = sanDesignator(move);
+        if (designator === "") return `${capture ? move.from[0] : ""}${capture}${move.to}${promotion}`;
+
+        // Pieces described by the same designator that can reach the same square need their source narrowed down
+        let sameFile = false;
+        let sameRank = false;
+        const ambiguous = moves.filter(
+            (other) => other.to === move.to && other.from !== move.from && sanDesignator(other) === designator
+        );
+        for (const other of ambiguous) {
+            if (other.from[0] === move.from[0]) sameFile = true;
+            if (other.from[1] === move.from[1]) sameRank = true;
+        }
+        let disambiguator = "";
+        if (ambiguous.length > 0) {
+            if (sameFile && sameRank) disambiguator = move.from;
+            else if (sameFile) disambiguator = move.from[1];
+            else disambiguator = move.from[0];
         }
 
-        return fusionSAN;
+        return `${designator}${disambiguator}${capture}${move.to}${promotion}`;
     }
 
-    export() {
-        // Collect game state
-        const gameState = this.positions;
+    // Find the moves described by a Fusion SAN string, also accepting standard SAN for unambiguous fused moves
+    // Sloppy notation must still describe exactly one move to be played
+    private _parseFusionSAN(san: string, moves: FusionMove[]): FusionMove[] {
+        const clean = san.replace(/[+#?!]+$/, "").replace(/0/g, "O");
+        const exact = moves.find((move) => this._convertToFusionSAN(move, moves) === clean);
+        if (exact) return [exact];
+
+        const parts = clean.match(SAN_PATTERN);
+        if (!parts) return [];
+        const [, designator, file, rank, to, promotion] = parts;
+        return moves.filter((move) => {
+            if (move.to !== to || move.castling) return false;
+            if (file && move.from[0] !== file) return false;
+            if (rank && move.from[1] !== rank) return false;
+            // The first letter names the primary piece, and a second letter may name its fused power
+            const [primary, fused] = designator.toLowerCase().split("");
+            if ((primary ?? "p") !== move.piece) return false;
+            if (fused && fused !== move.fused && fused !== move.fusion.fused) return false;
+            if (!!promotion !== !!move.promotion) return false;
+            // Either the piece chosen or the resulting fusion may be written after the = sign
+            return !promotion || [move.promotion?.toUpperCase(), fusionToString(move.fusion)].includes(promotion);
+        });
+    }
 
-        // Turn fused pieces into a comma seperated string
-        let fused = "";
-        for (const [square, piece] of Object.entries({ ...gameState[1], ...gameState[3] })) {
-            if (piece) fused += `${square}=${piece},`;
-        }
+    // Get the check or checkmate marker a move would earn, by playing it and taking it back
+    private _getCheckSuffix(move: FusionMove): string {
+        this.makeMove(move);
+        const suffix = this.isInCheck() ? (this.isInCheckmate() ? "#" : "+") : "";
+        this.unmakeMove();
+        return suffix;
+    }
 
-        // Fuse together primary board fen and fused pieces
-        return `${gameState[0]} ${fused}`;
+    export() {
+        // Fuse together primary board fen and fused pieces, recording the rules if they are not the default
+        const rules = rulesToString(this.#rules);
+        const suffix = rules !== rulesToString(DEFAULT_RULES) ? ` rules=${rules}` : "";
+        return positionToExport(this._getPosition(), this.#chess960) + suffix;
     }
 
+    // The fusion rules in play, which are kept when the board is reset
+    get rules(): RuleSet {
+        return { ...this.#rules };
+    }
+
+    /**
+     * Load a position from an export string as the start of a new game, clearing the move history.
+     */
     import(e_string: string) {
-        // Split string into their respective parts
-        const e = e_string.split(" ");
-        const fen = e_string[e_string.length - 1] === "," ? e.slice(0, e.length - 1).join(" ") : e_string;
+        const position = this._loadExport(e_string);
+        // Moves played before the import belong to another game, so they can no longer be undone or exported
+        this.#history = [];
+        this.#cursor = 0;
+        this.#adjudication = null;
+        this.#start = positionToExport(position, this.#chess960);
+        this._emit("import", { position: this.export() });
+    }
 
-        // Check FEN if it is valid, extracting all parts apart from the last
-        const res = validateFen(fen);
-        if (!res.ok) throw new Error(res.error);
+    // Load the position in an export string without touching the history, as undo and redo do
+    private _loadExport(e_string: string): PositionJSON {
+        // A ruleset in the string replaces the current rules, which are otherwise kept
+        const { position, rules, chess960 } = parseExport(e_string);
+        // Chess960 starting from a standard looking setup can only be told apart by the chess960 token
+        if (chess960) this.#chess960 = true;
+        this._loadPosition(position, "export string");
+        if (rules) this.#rules = rules;
+        return position;
+    }
 
-        // Parse fused pieces
-        const fusedPieces = e_string[e_string.length - 1] === "," ? e[e.length - 1].split(",") : [];
+    /**
+     * Serialise the whole board, including its history, rules and PGN headers, into a versioned JSON object.
+     * This is also what JSON.stringify() uses for a board.
+     */
+    toJSON(): FusionBoardJSON {
+        return {
+            version: JSON_VERSION,
+            position: this._getPosition(),
+            start: parseExport(this.#start).position,
+            moves: this.#history.map(({ fsan }) => fsan),
+            cursor: this.#cursor,
+            rules: { ...this.#rules },
+            chess960: this.#chess960,
+            headers: { ...this.#headers },
+        };
+    }
 
-        // Check virtual FEN for validity
-        if (fusedPieces.length > 0) {
-            const virtualGame = new FusionBoard();
-            virtualGame.load(fen);
-            virtualGame.fused = fusedPieces;
-            const virtualRes = validateFen(virtualGame.positions[2]);
-            if (!virtualRes.ok) throw new Error(`virtual board :: ${virtualRes.error}`);
+    /**
+     * Load a board from toJSON(), either as an object or a JSON string. Legacy export strings are also accepted
+     * and upgraded, as version 1 of the format. Errors name the field and the token that is invalid, and leave
+     * the board as it was.
+     */
+    fromJSON(json: string | FusionBoardJSON) {
+        let data: unknown = json;
+        if (typeof json === "string" && json.trim().startsWith("{")) {
+            try {
+                data = JSON.parse(json);
+            } catch (e) {
+                throw invalidField("JSON", json.trim().slice(0, 32), e instanceof Error ? e.message : String(e));
+            }
+        } else if (typeof json === "string") {
+            // Legacy export strings only hold a position, which becomes the start of a new game
+            const { position, rules } = parseExport(json);
+            data = {
+                version: JSON_VERSION,
+                position,
+                start: position,
+                moves: [],
+                cursor: 0,
+                rules: rules ?? this.#rules,
+                chess960: this.#chess960,
+                headers: defaultHeaders(),
+            };
         }
 
-        // Format is in square=PIECE, check if the squares and pieces are valid
-        for (const piece of fusedPieces) {
-            if (!piece) continue;
-            const [square, pieceName] = piece.split("=");
-            if (!SQUARES.includes(square as Square) || !PIECES.includes(pieceName.toLowerCase())) {
-                if (square === "bK" || square === "wK") continue;
-                throw new Error("Invalid Fusion Chess export string.");
+        const saved = this.toJSON();
+        try {
+            this._muted(() => this._loadJSON(validateJSON(data)));
+        } catch (e) {
+            this._muted(() => this._loadJSON(saved));
+            throw e;
+        }
+        this._emit("import", { position: this.export() });
+    }
+
+    private _loadJSON(data: FusionBoardJSON) {
+        this.reset();
+        this.#rules = { ...data.rules };
+        this.#chess960 = data.chess960;
+        this._loadPosition(data.start, "start");
+        this.#start = positionToExport(data.start, this.#chess960);
+        data.moves.forEach((san, index) => {
+            if (!this.movePiece(san)) throw invalidField(`moves[${index}]`, san, "is not a legal move");
+        });
+        this.goToPly(data.cursor);
+        this.#headers = { ...data.headers };
+
+        // The current position is stored for readability, so it has to agree with the moves
+        const expected = new FusionBoard({ rules: this.#rules, chess960: this.#chess960 });
+        expected._loadPosition(data.position, "position");
+        if (positionKey(expected.export()) !== positionKey(this.export())) {
+            throw invalidField("position", data.position.fen, "does not match the position reached by the moves");
+        }
+    }
+
+    // Read the board into a position, with castling rights in X-FEN and the lineage of every fused piece
+    private _getPosition(): PositionJSON {
+        const fen = this.fen().split(" ");
+        fen[2] = castlingToString(this.#castling, fen[0]);
+        const entry = (key: string, piece: string): FusedPieceJSON => {
+            const info = this.#lineage[key];
+            if (!info) return { piece: piece as PieceSymbol };
+            return {
+                piece: piece as PieceSymbol,
+                lineage: { color: info.color, origin: info.origin, ply: info.ply, chain: [...info.chain] },
+            };
+        };
+        const position: PositionJSON = { fen: fen.join(" "), fused: {}, kingFused: {} };
+        for (const [square, piece] of Object.entries(this.#fused)) {
+            position.fused[square] = entry(square, piece);
+        }
+        for (const [key, piece] of Object.entries(this.#king_fused)) {
+            position.kingFused[key[0] as Color] = entry(key, piece);
+        }
+        return position;
+    }
+
+    // Check a position and load it onto the board, leaving the board untouched if it is invalid
+    private _loadPosition(position: PositionJSON, field: string) {
+        // Castling rights may be in KQkq, X-FEN or Shredder-FEN, so they are checked against the pieces separately
+        const fields = position.fen.trim().split(/\s+/);
+        const castlingField = fields[2];
+        if (fields.length > 2) fields[2] = "-";
+        const res = validateFen(fields.join(" "));
+        if (!res.ok) throw invalidField(field, position.fen, fenProblem(res.error));
+        const castling = parseCastling(castlingField, fields[0]);
+        fields[2] = castlingToString(castling, fields[0], true);
+
+        // Fused pieces must be attached to a primary piece, as kings are fused through their colour instead
+        const board = expandPlacement(fields[0]).split("");
+        const virtual = [...board];
+        for (const [square, { piece }] of Object.entries(position.fused)) {
+            const index = SQUARES.indexOf(square as Square);
+            if (index === -1 || board[index] === "." || board[index].toLowerCase() === "k") {
+                throw invalidField("fused piece", `${square}=${piece}`, "has no piece to fuse with");
             }
+            virtual[index] = board[index] === board[index].toUpperCase() ? piece.toUpperCase() : piece;
         }
 
-        // Set king fused pieces state
+        // Check virtual FEN for validity, where fused pieces stand in for the pieces they are attached to
+        if (Object.keys(position.fused).length > 0) {
+            const vfen = [compressPlacement(virtual.join("")), ...fields.slice(1)].join(" ");
+            const virtualRes = validateFen(vfen);
+            if (!virtualRes.ok) throw invalidField("virtual board", vfen, fenProblem(virtualRes.error));
+        }
+
+        // Set primary board FEN and fused pieces
+        this.#castling = castling;
+        // Castling from anywhere other than the standard squares is only possible in Chess960
+        if (needsChess960(castling, fields[0])) this.#chess960 = true;
+        this.load(fields.join(" "));
+        this.#fused = {};
         this.#king_fused = {};
-        if (fusedPieces.length > 0) {
-            const kingFused = fusedPieces.filter((piece) => piece.includes("K"));
-            for (const fusion of kingFused) {
-                this.#king_fused = { ...this.#king_fused, [fusion.slice(0, 2)]: fusion.slice(-1) };
+        this.#lineage = {};
+        for (const [key, { piece, lineage }] of fusedEntries(position)) {
+            const isKing = key === "wK" || key === "bK";
+            if (isKing) this.#king_fused[key] = piece;
+            else this.#fused[key] = piece;
+            // Fused powers without a lineage are assumed to have been captured from the opponent just now
+            const square = isKing ? this.findKing(key[0] as Color) : (key as Square);
+            const color = this.get(square).color === "w" ? "b" : "w";
+            this.#lineage[key] = lineage
+                ? { piece, ...lineage, chain: [...lineage.chain] }
+                : { piece, color, origin: square, ply: this._getPly(), chain: [square] };
+        }
+        // Any moves played with makeMove() belonged to the position that was replaced
+        this.#made = [];
+    }
+
+    header(...args: string[]): Record<string, string> {
+        for (let i = 0; i < args.length; i += 2) {
+            if (typeof args[i] === "string" && typeof args[i + 1] === "string") {
+                this.#headers[args[i]] = args[i + 1];
             }
         }
+        return this.#headers;
+    }
 
-        // Set primary board FEN and fused pieces
-        this.load(fen);
-        this.fused = fusedPieces;
+    /**
+     * Export the game as Fusion PGN. Moves are written in Fusion SAN, and each move is followed by
+     * a comment holding the fused pieces after it, in the same format as the export string.
+     * Only the moves up to the position on the board are exported.
+     */
+    pgn({ newline = "\n", maxWidth = 0 }: { newline?: string; maxWidth?: number } = {}): string {
+        const result = this._getPgnResult();
+        const headers: Record<string, string> = { ...this.#headers, Result: result };
+        // Games that do not begin from the initial position need their setup recorded
+        if (this.#start.trim() !== DEFAULT_POSITION) headers.FFEN = this.#start;
+        // As are games played with anything other than the default rules
+        const rules = rulesToString(this.#rules);
+        if (rules !== rulesToString(DEFAULT_RULES)) headers.Rules = rules;
+
+        const tokens: string[] = [];
+        const [, turn, , , , fullmoves] = this.#start.split(" ");
+        let colour = turn;
+        let moveNumber = parseInt(fullmoves);
+        this.#history.slice(0, this.#cursor).forEach(({ fsan, ffen }, index) => {
+            if (colour === "w") tokens.push(`${moveNumber}.`);
+            else if (index === 0) tokens.push(`${moveNumber}...`);
+            tokens.push(fsan);
+            const fused = ffen.trim().split(" ")[6];
+            if (fused) tokens.push(`{${fused}}`);
+            if (colour === "b") moveNumber++;
+            colour = colour === "w" ? "b" : "w";
+        });
+        tokens.push(result);
+
+        // Wrap the movetext if a maximum width was requested
+        const lines = [""];
+        for (const token of tokens) {
+            const line = lines[lines.length - 1];
+            if (maxWidth > 0 && line && line.length + token.length + 1 > maxWidth) lines.push(token);
+            else lines[lines.length - 1] = line ? `${line} ${token}` : token;
+        }
+
+        const tags = Object.entries(headers).map(([key, value]) => `[${key} "${value.replace(/"/g, "\\\"")}"]`);
+        return [...tags, "", ...lines].join(newline);
+    }
+
+    /**
+     * Load a single game from Fusion PGN, replaying every move through movePiece.
+     * Fused state comments are checked against the board, and an error is thrown on any mismatch or illegal move,
+     * or if the PGN holds more than one game. The board is left as it was if the game cannot be loaded.
+     */
+    loadPgn(pgn: string) {
+        const saved = this.toJSON();
+        try {
+            this._muted(() => this._loadPgn(pgn));
+        } catch (e) {
+            this._muted(() => this._loadJSON(saved));
+            throw e;
+        }
+        this._emit("import", { position: this.export() });
+    }
+
+    private _loadPgn(pgn: string) {
+        const headers: Record<string, string> = {};
+        const tag = /\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]/g;
+        const movetext = pgn.replace(tag, (_, key: string, value: string, offset: number) => {
+            // Tags that come after movetext belong to the next game
+            if (pgn.slice(0, offset).replace(tag, "").trim()) throw new Error(MULTIPLE_GAMES);
+            headers[key] = value.replace(/\\"/g, "\"");
+            return "";
+        });
+        if (headers.Variant && headers.Variant.toLowerCase() !== "fusion") {
+            throw new Error(`Unsupported PGN variant: ${headers.Variant}`);
+        }
+
+        // Games without a Rules header were played with the default rules
+        this.#rules = headers.Rules ? rulesFromString(headers.Rules) : { ...DEFAULT_RULES };
+        this.reset();
+        if (headers.FFEN) this.import(headers.FFEN);
+        delete headers.FFEN;
+        delete headers.Rules;
+        this.#headers = { ...this.#headers, ...headers };
+
+        let last = "the starting position";
+        let ended = false;
+        for (const token of movetext.match(/\{[^}]*\}|[^\s{}]+/g) ?? []) {
+            // A game ends at its result, so any moves after it are another game
+            if (ended && !token.startsWith("{")) throw new Error(MULTIPLE_GAMES);
+            if (token.startsWith("{")) {
+                // Only comments in the export string format describe fused state, others are ignored
+                const fused = token.slice(1, -1).trim();
+                if (!/^(([a-h][1-8]|[wb]K)=[pnbrqk](:[^,]*)?,?)*$/.test(fused)) continue;
+                const actual = this.export().trim().split(" ")[6] ?? "";
+                // Lineage is optional in comments, so only the fused pieces themselves are compared
+                const withoutLineage = (state: string) => state.replace(/:[^,]*/g, "").replace(/,?$/, ",");
+                if (withoutLineage(fused) !== withoutLineage(actual)) {
+                    throw new Error(
+                        `Fused pieces after ${last} are ${actual || "empty"}, but the PGN expects ${fused}`
+                    );
+                }
+                continue;
+            }
+            if (PGN_RESULTS.includes(token)) ended = true;
+            if (/^\d+\.+$/.test(token) || ended) continue;
+            const san = token.replace(/^\d+\.+/, "");
+            if (!this.movePiece(san)) throw new Error(`Illegal move in PGN after ${last}: ${san}`);
+            last = san;
+        }
+    }
+
+    private _getPgnResult(): string {
+        const result = this.getResult();
+        if (result) return result.winner === null ? "1/2-1/2" : result.winner === "w" ? "1-0" : "0-1";
+        // A result recorded by hand is kept while the board has not ended the game
+        return this.#headers.Result ?? "*";
     }
 
     // _cannotBlockMate(king: Square) {
@@ -837,12 +1527,635 @@ export default class FusionBoard extends ChessBoard {
 
 export const PIECES = ["p", "n", "b", "r", "q", "k"];
 
+const PGN_RESULTS = ["1-0", "0-1", "1/2-1/2", "*"];
+const MULTIPLE_GAMES = "PGN holds more than one game, only a single game can be loaded";
+// Standard SAN for a move, where the designator may also name a fused power
+const SAN_PATTERN = /^([PNBRQK]{0,2})([a-h])?([1-8])?x?([a-h][1-8])(?:=?([NBRQ]{1,2}))?$/;
+const PIECE_NAMES: Record<PieceSymbol, string> = {
+    p: "pawn",
+    n: "knight",
+    b: "bishop",
+    r: "rook",
+    q: "queen",
+    k: "king",
+};
+const COLOUR_NAMES: Record<Color, string> = { w: "White", b: "Black" };
+
+// Promotion choices, in the order they are offered
+const PROMOTIONS: PieceSymbol[] = ["q", "r", "b", "n"];
+
+// The PGN tags every new game starts with
+function defaultHeaders(): Record<string, string> {
+    const now = new Date();
+    const date = [now.getFullYear(), now.getMonth() + 1, now.getDate()]
+        .map((part) => String(part).padStart(2, "0"))
+        .join(".");
+    return {
+        Event: "Fusion Chess game",
+        Site: "https://fusionchess.vercel.app/",
+        Date: date,
+        Round: "-",
+        White: "?",
+        Black: "?",
+        Result: "*",
+        Variant: "Fusion",
+    };
+}
+
+const PIECE_VALUES: Record<PieceSymbol, number> = { k: 1000, q: 9, r: 5, b: 3, n: 3, p: 1 };
+
+// A square on the native board representation, indexed in the same order as SQUARES (a8 = 0, h1 = 63)
+type Cell = { type: PieceSymbol; color: Color; fused?: PieceSymbol; info?: FusionInfo } | null;
+
+// The position fields of chess.js, which are written directly after a move instead of loading a whole FEN
+// These are private to chess.js, so its version is pinned and the perft tool checks their layout before running
+type ChessState = {
+    _board: Array<{ type: PieceSymbol; color: Color } | undefined>;
+    _kings: Record<Color, number>;
+    _turn: Color;
+    _castling: Record<Color, number>;
+    _epSquare: number;
+    _halfMoves: number;
+    _moveNumber: number;
+};
+
+// Listeners subscribed to each event with FusionBoard.on()
+type ListenerMap = { [E in keyof FusionBoardEvents]?: Array<FusionBoardListener<E>> };
+
+// Everything a move changes on the board, so that makeMove() can be taken back
+type BoardState = {
+    chess: ChessState;
+    fused: Record<string, string>;
+    kingFused: Record<string, string>;
+    lineage: Record<string, FusionInfo>;
+    castling: Square[];
+};
+
+const KNIGHT_STEPS = [[-2, -1], [-2, 1], [-1, -2], [-1, 2], [1, -2], [1, 2], [2, -1], [2, 1]];
+const KING_STEPS = [[-1, -1], [-1, 0], [-1, 1], [0, -1], [0, 1], [1, -1], [1, 0], [1, 1]];
+const ROOK_RAYS = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+const BISHOP_RAYS = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
+// Rooks that may castle in the standard starting position
+const STANDARD_CASTLING: Square[] = ["h1", "a1", "h8", "a8"];
+
+// Every movement a piece may use: its primary movement followed by its fused power
+function powersOf(cell: NonNullable<Cell>): PieceSymbol[] {
+    return cell.fused && cell.fused !== cell.type ? [cell.type, cell.fused] : [cell.type];
+}
+
+function movedPower(move: FusionMove): PieceSymbol {
+    return move.virtual && move.fused ? move.fused : move.piece;
+}
+
+function offsetSquare(index: number, rows: number, files: number): number {
+    const row = (index >> 3) + rows;
+    const file = (index & 7) + files;
+    return row < 0 || row > 7 || file < 0 || file > 7 ? -1 : row * 8 + file;
+}
+
+function isLastRank(index: number, colour: Color): boolean {
+    return (index >> 3) === (colour === "w" ? 0 : 7);
+}
+
+// The square of the pawn removed by an en passant capture landing on index
+function epCaptureIndex(index: number, colour: Color): number {
+    return index + (colour === "w" ? 8 : -8);
+}
+
+// Squares attacked by a single power of a piece, regardless of what occupies them
+function attackTargets(cells: Cell[], from: number, power: PieceSymbol, colour: Color): number[] {
+    const targets: number[] = [];
+    const steps = (list: number[][]) => {
+        for (const [rows, files] of list) {
+            const to = offsetSquare(from, rows, files);
+            if (to !== -1) targets.push(to);
+        }
+    };
+    const rays = (list: number[][]) => {
+        for (const [rows, files] of list) {
+            let to = offsetSquare(from, rows, files);
+            while (to !== -1) {
+                targets.push(to);
+                if (cells[to]) break;
+                to = offsetSquare(to, rows, files);
+            }
+        }
+    };
+    switch (power) {
+        case "p":
+            steps(colour === "w" ? [[-1, -1], [-1, 1]] : [[1, -1], [1, 1]]);
+            break;
+        case "n":
+            steps(KNIGHT_STEPS);
+            break;
+        case "k":
+            steps(KING_STEPS);
+            break;
+        case "b":
+            rays(BISHOP_RAYS);
+            break;
+        case "r":
+            rays(ROOK_RAYS);
+            break;
+        case "q":
+            rays(ROOK_RAYS);
+            rays(BISHOP_RAYS);
+            break;
+    }
+    return targets;
+}
+
+// Squares a single power of a piece may move to, ignoring whether the move exposes its own king
+function pseudoTargets(cells: Cell[], from: number, power: PieceSymbol, colour: Color, epIndex: number): number[] {
+    if (power !== "p") {
+        return attackTargets(cells, from, power, colour).filter((to) => cells[to]?.color !== colour);
+    }
+    const forward = colour === "w" ? -1 : 1;
+    const targets = attackTargets(cells, from, power, colour).filter(
+        (to) => (cells[to] && cells[to]?.color !== colour) || to === epIndex
+    );
+    const single = offsetSquare(from, forward, 0);
+    if (single !== -1 && !cells[single]) {
+        targets.push(single);
+        const double = offsetSquare(from, forward * 2, 0);
+        if ((from >> 3) === (colour === "w" ? 6 : 1) && !cells[double]) targets.push(double);
+    }
+    return targets;
+}
+
+function isSquareAttacked(cells: Cell[], index: number, by: Color): boolean {
+    // Attacks are symmetric, so look outwards from the square for a piece of the attacking side with the same movement
+    // Pawns are the exception, as they are found by looking the way the other side's pawns capture
+    const hasPower = (from: number, powers: PieceSymbol[]) => {
+        const cell = cells[from];
+        return !!cell && cell.color === by && powersOf(cell).some((power) => powers.includes(power));
+    };
+    return (
+        attackTargets(cells, index, "n", by).some((from) => hasPower(from, ["n"])) ||
+        attackTargets(cells, index, "k", by).some((from) => hasPower(from, ["k"])) ||
+        attackTargets(cells, index, "p", by === "w" ? "b" : "w").some((from) => hasPower(from, ["p"])) ||
+        attackTargets(cells, index, "r", by).some((from) => hasPower(from, ["r", "q"])) ||
+        attackTargets(cells, index, "b", by).some((from) => hasPower(from, ["b", "q"]))
+    );
+}
+
+// Find every piece attacking a square and the power it attacks with, listing primary movement first
+function findAttackers(cells: Cell[], index: number, by: Color): Array<{ from: number; power: PieceSymbol }> {
+    const attackers: Array<{ from: number; power: PieceSymbol }> = [];
+    for (let from = 0; from < 64; from++) {
+        const cell = cells[from];
+        if (!cell || cell.color !== by) continue;
+        for (const power of powersOf(cell)) {
+            if (attackTargets(cells, from, power, by).includes(index)) attackers.push({ from, power });
+        }
+    }
+    return attackers;
+}
+
+function toAttacker(cells: Cell[], { from, power }: { from: number; power: PieceSymbol }): Attacker {
+    const cell = cells[from] as NonNullable<Cell>;
+    const source = power === cell.type ? "primary" : cell.type === "k" ? "king-fusion" : "fused";
+    return { square: SQUARES[from], color: cell.color, piece: cell.type, power, source };
+}
+
+// Whether a move leaves the mover's own king attacked, by a primary piece, a fused power or a fused king
+function exposesKing(cells: Cell[], move: FusionMove): boolean {
+    const after = simulateMove(cells, move);
+    const king = after.findIndex((cell) => cell?.type === "k" && cell.color === move.color);
+    return king === -1 || isSquareAttacked(after, king, move.color === "w" ? "b" : "w");
+}
+
+function describePiece(cell: NonNullable<Cell>): string {
+    const name = PIECE_NAMES[cell.type];
+    return cell.fused && cell.fused !== cell.type ? `${name} fused with a ${PIECE_NAMES[cell.fused]}` : name;
+}
+
+function describeAttacker(cells: Cell[], { from, power }: { from: number; power: PieceSymbol }): string {
+    const cell = cells[from] as NonNullable<Cell>;
+    if (power === cell.type) return `the ${PIECE_NAMES[power]} on ${SQUARES[from]}`;
+    return `the fused ${PIECE_NAMES[power]} power of the ${PIECE_NAMES[cell.type]} on ${SQUARES[from]}`;
+}
+
+// Decide what stands on the target square after a piece moves there, following the fusion rules
+function resolveFusion(mover: NonNullable<Cell>, captured: Cell, rules: RuleSet): FusionMove["fusion"] {
+    let fusion: FusionMove["fusion"] = { piece: mover.type, fused: mover.fused };
+    if (captured) {
+        const capturedPower = strongerPiece(captured.type, captured.fused);
+        const strongest = strongerPiece(mover.type, mover.fused);
+        const sameMovement =
+            mover.type === captured.type || (mover.fused ?? mover.type) === (captured.fused ?? captured.type);
+        const rookBishop = (strongest === "r" && capturedPower === "b") || (strongest === "b" && capturedPower === "r");
+        if (mover.type === "k") {
+            // The king never fuses with pawns, and may only fuse once
+            const ignored = (rules.kingFusesOnce && mover.fused) || (rules.kingIgnoresPawns && capturedPower === "p");
+            if (!ignored) fusion = { piece: "k", fused: capturedPower };
+        } else if (rules.sameMovementNoFusion && sameMovement) {
+            // Capturing a piece of the same movement results in no fusion
+        } else if (rules.queenOnlyGainsKnight && strongest === "q") {
+            // A queen can already move as a rook, bishop or pawn, so only a knight adds anything
+            const hasKnight = captured.type === "n" || captured.fused === "n";
+            if (mover.type === "q" && hasKnight) fusion = { piece: "q", fused: "n" };
+        } else if (rules.rookBishopQueen && rookBishop) {
+            // A rook and bishop together are a queen
+            fusion = { piece: "q" };
+        } else {
+            fusion = { piece: mover.type, fused: capturedPower !== mover.type ? capturedPower : undefined };
+        }
+    }
+    return fusion;
+}
+
+/**
+ * Whether a pawn reaching the final rank may promote. Only a pawn that is the primary piece and moves as a pawn may,
+ * and a fused pawn may not be attached or attaching to a queen. A piece holding a captured pawn's power never
+ * promotes, so where that power came from plays no part.
+ */
+function canPromote(mover: NonNullable<Cell>, power: PieceSymbol, captured: Cell, to: number): boolean {
+    if (mover.type !== "p" || power !== "p" || !isLastRank(to, mover.color)) return false;
+    return ![mover.fused, captured?.type, captured?.fused].includes("q");
+}
+
+// Promoting a piece that has conflicting movement removes the lower-ranked piece
+function promotePiece(pawn: NonNullable<Cell>, promotion: PieceSymbol, rules: RuleSet): NonNullable<Cell> {
+    const { color, fused } = pawn;
+    if (!fused || fused === promotion) return { type: promotion, color };
+    // A queen already moves as a rook or bishop, and a rook with a bishop is a queen
+    if (promotion === "q" && fused !== "n") return { type: "q", color };
+    const rookBishop = (promotion === "r" && fused === "b") || (promotion === "b" && fused === "r");
+    if (rules.rookBishopQueen && rookBishop) return { type: "q", color };
+    return { type: promotion, color, fused };
+}
+
+function fusionToString(fusion: FusionMove["fusion"]): string {
+    return `${fusion.piece}${fusion.fused ?? ""}`.toUpperCase();
+}
+
+// The piece letters a move is written with in Fusion SAN, which is empty for unfused pawns
+function sanDesignator(move: FusionMove): string {
+    // Promotions are described by the pawn before it promotes, as the promoted piece follows the = sign
+    if (move.promotion) return move.fused ? `P${move.fused.toUpperCase()}` : "";
+    if (move.fusion.piece !== "k" && move.fusion.fused) return fusionToString(move.fusion);
+    return move.piece === "p" ? "" : move.piece.toUpperCase();
+}
+
+// Describe a problem with one field of a serialised board, naming the token that caused it
+function invalidField(field: string, token: unknown, problem: string): Error {
+    return new Error(`Invalid ${field} ${JSON.stringify(token)}: ${problem}`);
+}
+
+const FUSED_ENTRY = /^([a-h][1-8]|[wb]K)=([pnbrqk])(?::([wb]):(\d+):([a-h][1-8](?:-[a-h][1-8])*))?$/i;
+
 /**
- * Special error to differentiate between errors thrown by the chess.js library and errors thrown by the FusionBoard.
+ * Read an export string, which is a FEN followed by its fused pieces as square=piece entries, with kings fused
+ * through wK and bK. Each entry may carry its lineage as :colour:ply:chain, and rules= and chess960 tokens may follow.
  */
-class SafeError extends Error {
-    constructor(message: string) {
-        super(message);
-        this.name = "SafeError";
+function parseExport(e_string: string): { position: PositionJSON; rules?: RuleSet; chess960?: boolean } {
+    const tokens = e_string.trim().split(/\s+/);
+    const position: PositionJSON = { fen: tokens.slice(0, 6).join(" "), fused: {}, kingFused: {} };
+    let rules: RuleSet | undefined;
+    let chess960: boolean | undefined;
+    let fusedToken: string | undefined;
+    for (const token of tokens.slice(6)) {
+        if (token.startsWith("rules=")) rules = rulesFromString(token.slice(6));
+        else if (token === "chess960") chess960 = true;
+        else if (fusedToken === undefined) fusedToken = token;
+        else throw invalidField("export string token", token, "expected fused pieces, rules= or chess960");
+    }
+
+    for (const entry of (fusedToken ?? "").split(",").filter(Boolean)) {
+        const match = entry.match(FUSED_ENTRY);
+        if (!match) {
+            throw invalidField("fused piece", entry, "expected square=piece or wK/bK=piece, then :colour:ply:chain");
+        }
+        const [, key, piece, colour, ply, chain] = match;
+        const fused: FusedPieceJSON = { piece: piece.toLowerCase() as PieceSymbol };
+        if (colour) {
+            const links = chain.split("-") as Square[];
+            fused.lineage = { color: colour as Color, origin: links[0], ply: parseInt(ply), chain: links };
+        }
+        if (key === "wK" || key === "bK") position.kingFused[key[0] as Color] = fused;
+        else position.fused[key] = fused;
+    }
+    return { position, rules, chess960 };
+}
+
+// Fused pieces of a position keyed the same way as the export string, by square and then wK/bK for king fusions
+function fusedEntries({ fused, kingFused }: PositionJSON): Array<[string, FusedPieceJSON]> {
+    const kings = Object.entries(kingFused).map(([colour, piece]): [string, FusedPieceJSON] => [`${colour}K`, piece]);
+    return [...Object.entries(fused), ...kings];
+}
+
+function positionToExport(position: PositionJSON, chess960 = false): string {
+    // Turn fused pieces into a comma seperated string, each followed by its lineage as :colour:ply:chain
+    const pieces = fusedEntries(position).map(([key, { piece, lineage }]) => {
+        return `${key}=${piece}${lineage ? `:${lineage.color}:${lineage.ply}:${lineage.chain.join("-")}` : ""},`;
+    });
+    return `${position.fen} ${pieces.join("")}${chess960 ? " chess960" : ""}`;
+}
+
+// chess.js FEN errors without their prefix, as the field they belong to is named instead
+function fenProblem(error?: string): string {
+    return (error ?? "").replace(/^Invalid FEN: /, "");
+}
+
+// Shorten a placement from expandPlacement() back into FEN notation
+function compressPlacement(board: string): string {
+    const rows = board.match(/.{8}/g) ?? [];
+    return rows.map((row) => row.replace(/\.+/g, (empty) => String(empty.length))).join("/");
+}
+
+// Check that serialised board state has every field of the current version, before any of it is loaded
+function validateJSON(data: unknown): FusionBoardJSON {
+    const isObject = (value: unknown): value is Record<string, unknown> =>
+        typeof value === "object" && value !== null && !Array.isArray(value);
+    if (!isObject(data)) throw invalidField("JSON", data, "expected an object");
+    if (data.version !== JSON_VERSION) {
+        throw invalidField("version", data.version, `only version ${JSON_VERSION} is supported`);
+    }
+
+    const checkFused = (field: string, value: unknown) => {
+        if (!isObject(value) || typeof value.piece !== "string" || !PIECES.includes(value.piece)) {
+            throw invalidField(field, value, "expected a piece such as { \"piece\": \"n\" }");
+        }
+        if (value.lineage === undefined) return;
+        const lineage = value.lineage;
+        const valid =
+            isObject(lineage) &&
+            (lineage.color === "w" || lineage.color === "b") &&
+            SQUARES.includes(lineage.origin as Square) &&
+            Number.isInteger(lineage.ply) &&
+            Array.isArray(lineage.chain) &&
+            lineage.chain.length > 0 &&
+            lineage.chain.every((link) => SQUARES.includes(link as Square));
+        if (!valid) throw invalidField(`${field}.lineage`, lineage, "expected colour, origin, ply and chain");
+    };
+    const checkPosition = (field: string, value: unknown) => {
+        if (!isObject(value)) throw invalidField(field, value, "expected a position");
+        if (typeof value.fen !== "string") throw invalidField(`${field}.fen`, value.fen, "expected a FEN");
+        if (!isObject(value.fused)) throw invalidField(`${field}.fused`, value.fused, "expected an object");
+        for (const [square, fused] of Object.entries(value.fused)) {
+            if (!SQUARES.includes(square as Square)) throw invalidField(`${field}.fused`, square, "expected a square");
+            checkFused(`${field}.fused.${square}`, fused);
+        }
+        if (!isObject(value.kingFused)) throw invalidField(`${field}.kingFused`, value.kingFused, "expected an object");
+        for (const [colour, fused] of Object.entries(value.kingFused)) {
+            if (colour !== "w" && colour !== "b") throw invalidField(`${field}.kingFused`, colour, "expected w or b");
+            checkFused(`${field}.kingFused.${colour}`, fused);
+        }
+    };
+    checkPosition("position", data.position);
+    checkPosition("start", data.start);
+
+    const { moves, cursor, rules, chess960, headers } = data;
+    if (!Array.isArray(moves)) throw invalidField("moves", moves, "expected an array of Fusion SAN moves");
+    moves.forEach((move, index) => {
+        if (typeof move !== "string") throw invalidField(`moves[${index}]`, move, "expected Fusion SAN");
+    });
+    if (!Number.isInteger(cursor) || (cursor as number) < 0 || (cursor as number) > moves.length) {
+        throw invalidField("cursor", cursor, `expected a number of moves from 0 to ${moves.length}`);
+    }
+    if (!isObject(rules)) throw invalidField("rules", rules, "expected a ruleset");
+    for (const rule of Object.keys(DEFAULT_RULES)) {
+        if (typeof rules[rule] !== "boolean") throw invalidField(`rules.${rule}`, rules[rule], "expected a boolean");
+    }
+    if (typeof chess960 !== "boolean") throw invalidField("chess960", chess960, "expected a boolean");
+    if (!isObject(headers) || Object.values(headers).some((value) => typeof value !== "string")) {
+        throw invalidField("headers", headers, "expected an object of strings");
+    }
+    return data as FusionBoardJSON;
+}
+
+// Square indexes from one square to another along a rank, including both ends
+function squaresBetween(from: number, to: number): number[] {
+    const step = to >= from ? 1 : -1;
+    return Array.from({ length: Math.abs(to - from) + 1 }, (_, i) => from + i * step);
+}
+
+// Spell out the empty squares of a FEN piece placement, giving one character per square in SQUARES order
+function expandPlacement(placement: string): string {
+    return placement.replace(/\//g, "").replace(/\d/g, (empty) => ".".repeat(parseInt(empty)));
+}
+
+/**
+ * Read castling rights into the squares of the rooks that may castle. KQkq refers to the outermost rook on that
+ * side of the king as in X-FEN, while file letters (Shredder-FEN, or X-FEN for inner rooks) name the rook's file.
+ */
+function parseCastling(field: string, placement: string): Square[] {
+    if (field === "-") return [];
+    const board = expandPlacement(placement);
+    const rights: Square[] = [];
+    if (!/^[KQkqA-Ha-h]{1,4}$/.test(field)) throw invalidField("castling rights", field, "expected KQkq or rook files");
+    for (const right of field) {
+        const colour: Color = right === right.toUpperCase() ? "w" : "b";
+        const rank = colour === "w" ? 56 : 0;
+        const backRank = board.slice(rank, rank + 8);
+        const rook = colour === "w" ? "R" : "r";
+        const king = backRank.indexOf(colour === "w" ? "K" : "k");
+        let file = "abcdefgh".indexOf(right.toLowerCase());
+        if (right.toLowerCase() === "k") file = backRank.lastIndexOf(rook);
+        if (right.toLowerCase() === "q") file = backRank.indexOf(rook);
+        const side = right.toLowerCase() === "k" ? file > king : right.toLowerCase() === "q" ? file < king : true;
+        if (king === -1 || file === -1 || backRank[file] !== rook || !side) {
+            throw invalidField("castling rights", field, `${right} has no king and rook to castle with`);
+        }
+        if (!rights.includes(SQUARES[rank + file])) rights.push(SQUARES[rank + file]);
+    }
+    return rights;
+}
+
+/**
+ * Write castling rights in X-FEN, which uses KQkq unless another rook stands further out on the same side of the
+ * king. chess.js only accepts KQkq, so flagsOnly always writes the side the rook castles towards.
+ */
+function castlingToString(rights: Square[], placement: string, flagsOnly = false): string {
+    const board = expandPlacement(placement);
+    const letters = rights.map((square) => {
+        const index = SQUARES.indexOf(square);
+        const rank = index - (index % 8);
+        const white = rank === 56;
+        const backRank = board.slice(rank, rank + 8);
+        const file = index % 8;
+        const kingside = file > backRank.indexOf(white ? "K" : "k");
+        const outermost = kingside ? backRank.lastIndexOf(white ? "R" : "r") : backRank.indexOf(white ? "R" : "r");
+        const letter = flagsOnly || outermost === file ? (kingside ? "k" : "q") : "abcdefgh"[file];
+        // Sort white before black, and the kingside before the queenside
+        return { letter: white ? letter.toUpperCase() : letter, order: (white ? 0 : 16) + (kingside ? 0 : 8) - file };
+    });
+    const sorted = letters.sort((a, b) => a.order - b.order).map(({ letter }) => letter);
+    return [...new Set(sorted)].join("") || "-";
+}
+
+// Whether castling rights need Chess960 rules, because a king or castling rook is not on its standard square
+function needsChess960(rights: Square[], placement: string): boolean {
+    const board = expandPlacement(placement);
+    return rights.some((rook) => {
+        const king = rook[1] === "1" ? "K" : "k";
+        return !STANDARD_CASTLING.includes(rook) || board[SQUARES.indexOf(rook[1] === "1" ? "e1" : "e8")] !== king;
+    });
+}
+
+/**
+ * Check an export string with the same checks as FusionBoard.import(), including the validity of the virtual board.
+ */
+export function validateExport(e_string: string): { ok: boolean; error?: string } {
+    try {
+        new FusionBoard().import(e_string);
+        return { ok: true };
+    } catch (e) {
+        return { ok: false, error: e instanceof Error ? e.message : String(e) };
+    }
+}
+
+/**
+ * Get the starting position of a Chess960 game by its standard number from 0 to 959, where 518 is the
+ * standard chess setup. A random position is chosen if no number is given.
+ */
+export function chess960Position(index: number = Math.floor(Math.random() * 960)): string {
+    if (!Number.isInteger(index) || index < 0 || index > 959) throw new Error(`Invalid Chess960 position: ${index}`);
+    const rank: string[] = Array(8).fill("");
+    const place = (piece: string, nth: number) => {
+        const empty = rank.flatMap((square, file) => (square ? [] : [file]));
+        rank[empty[nth]] = piece;
+    };
+    // Bishops go on opposite colours, then the queen and knights fill the empty squares in turn
+    rank[(index % 4) * 2 + 1] = "b";
+    rank[Math.floor(index / 4) % 4 * 2] = "b";
+    place("q", Math.floor(index / 16) % 6);
+    const [first, second] = KNIGHT_PLACEMENTS[Math.floor(index / 96)];
+    place("n", second);
+    place("n", first);
+    // The king always stands between the two rooks
+    place("r", 0);
+    place("k", 0);
+    place("r", 0);
+    const black = rank.join("");
+    return `${black}/pppppppp/8/8/8/8/PPPPPPPP/${black.toUpperCase()} w KQkq - 0 1`;
+}
+
+// Ways to place two knights on the five squares left after the bishops and queen, in Chess960 numbering order
+const KNIGHT_PLACEMENTS: Array<[number, number]> = [
+    [0, 1],
+    [0, 2],
+    [0, 3],
+    [0, 4],
+    [1, 2],
+    [1, 3],
+    [1, 4],
+    [2, 3],
+    [2, 4],
+    [3, 4],
+];
+
+// Letters each rule is recorded with in export strings and PGN headers
+const RULE_CODES: Record<keyof RuleSet, string> = {
+    rookBishopQueen: "q",
+    queenOnlyGainsKnight: "n",
+    kingIgnoresPawns: "p",
+    kingFusesOnce: "k",
+    sameMovementNoFusion: "s",
+};
+
+// Rulesets are written as the letters of their enabled rules, or - if every rule is disabled
+function rulesToString(rules: RuleSet): string {
+    const codes = (Object.keys(RULE_CODES) as Array<keyof RuleSet>).filter((rule) => rules[rule]);
+    return codes.map((rule) => RULE_CODES[rule]).join("") || "-";
+}
+
+function rulesFromString(code: string): RuleSet {
+    if (!/^(-|[qnpks]+)$/.test(code)) throw invalidField("rules", code, "expected - or letters from qnpks");
+    const rules = { ...DEFAULT_RULES };
+    for (const rule of Object.keys(RULE_CODES) as Array<keyof RuleSet>) {
+        rules[rule] = code.includes(RULE_CODES[rule]);
+    }
+    return rules;
+}
+
+// Positions repeat when the pieces, fused pieces, side to move, castling rights and en passant square are all the same
+function positionKey(ffen: string): string {
+    const [placement, turn, castling, ep, , , fused = ""] = ffen.trim().split(" ");
+    // Lineage does not change how pieces move, and fused pieces may be listed in any order
+    const pieces = fused.split(",").filter(Boolean).map((piece) => piece.split(":")[0]);
+    return [placement, turn, castling, ep, pieces.sort().join(",")].join(" ");
+}
+
+function strongerPiece(piece: PieceSymbol, other?: PieceSymbol): PieceSymbol {
+    if (!other) return piece;
+    return PIECE_VALUES[piece] >= PIECE_VALUES[other] ? piece : other;
+}
+
+// Play a generated move on a copy of the cells
+function simulateMove(cells: Cell[], move: FusionMove): Cell[] {
+    const after = cells.slice();
+    const from = SQUARES.indexOf(move.from);
+    const to = SQUARES.indexOf(move.to);
+    after[from] = null;
+    after[to] = { type: move.fusion.piece, color: move.color, fused: move.fusion.fused };
+    if (move.enPassant) {
+        after[epCaptureIndex(to, move.color)] = null;
+    }
+    if (move.castling) {
+        // The king and rook land on the usual castling squares, and the rook carries any fused power with it
+        const rank = from - (from % 8);
+        const rookFrom = SQUARES.indexOf(move.rook as Square);
+        const rook = cells[rookFrom];
+        after[to] = cells[to];
+        after[rookFrom] = null;
+        after[rank + (move.castling === "k" ? 6 : 2)] = cells[from];
+        after[rank + (move.castling === "k" ? 5 : 3)] = rook;
+    }
+    return after;
+}
+
+function cellsToPlacement(cells: Cell[]): string {
+    const rows: string[] = [];
+    for (let row = 0; row < 8; row++) {
+        let placement = "";
+        let empty = 0;
+        for (let file = 0; file < 8; file++) {
+            const cell = cells[row * 8 + file];
+            if (!cell) {
+                empty++;
+                continue;
+            }
+            if (empty > 0) placement += empty;
+            empty = 0;
+            placement += cell.color === "w" ? cell.type.toUpperCase() : cell.type;
+        }
+        rows.push(empty > 0 ? placement + empty : placement);
+    }
+    return rows.join("/");
+}
+
+// Build the chess.js fields for a position, where squares are indexed 0x88 and castling rights are bit flags
+function cellsToChessState(
+    cells: Cell[],
+    { turn, castling, ep, halfMoves, moveNumber }: {
+        turn: Color;
+        castling: string;
+        ep: Square | "-";
+        halfMoves: number;
+        moveNumber: number;
+    }
+): ChessState {
+    const to0x88 = (index: number) => (index >> 3) * 16 + (index & 7);
+    const state: ChessState = {
+        _board: new Array(128),
+        _kings: { w: -1, b: -1 },
+        _turn: turn,
+        _castling: { w: 0, b: 0 },
+        _epSquare: ep === "-" ? -1 : to0x88(SQUARES.indexOf(ep)),
+        _halfMoves: halfMoves,
+        _moveNumber: moveNumber,
+    };
+    cells.forEach((cell, index) => {
+        if (!cell) return;
+        state._board[to0x88(index)] = { type: cell.type, color: cell.color };
+        if (cell.type === "k") state._kings[cell.color] = to0x88(index);
+    });
+    for (const right of castling) {
+        const color = right === right.toUpperCase() ? "w" : "b";
+        if (right.toLowerCase() === "k") state._castling[color] |= 32;
+        if (right.toLowerCase() === "q") state._castling[color] |= 64;
     }
+    return state;
 }
@@ -0,0 +1,287 @@
+/**
+ * Native Fusion Chess engine, searching with FusionBoard's own move generation so that fused powers,
+ * king fusions and the fusion rules are all understood. It needs no assets, so it runs offline in a web worker.
+ * @author Lucas Bubner, 2023
+ */
+import { PieceSymbol, SQUARES } from "chess.js/src/chess";
+import FusionBoard, { FusionMove } from "./FusionBoard";
+
+/**
+ * A search score from the point of view of the side to move, in centipawns or moves until mate as in UCI.
+ */
+export type SearchScore = { cp: number } | { mate: number };
+
+export type SearchInfo = {
+    depth: number;
+    // Rank of the line among the best lines searched, starting from 1
+    multipv: number;
+    score: SearchScore;
+    nodes: number;
+    // Milliseconds since the search started
+    time: number;
+    // Principal variation in UCI notation, starting with the best move
+    pv: string[];
+};
+
+export type SearchOptions = {
+    depth?: number;
+    // Milliseconds to search for, after which the deepest completed iteration is used
+    movetime?: number;
+    // Number of best lines to find, each with its own exact score
+    multipv?: number;
+    // Checked every so often during the search, which ends early with the deepest completed iteration once it is true
+    interrupted?: () => boolean;
+    // Called for each line after each completed iteration of the search
+    onInfo?: (info: SearchInfo) => void;
+};
+
+// The best line is also given as info, with the others following it in lines
+export type SearchResult = { bestMove: string | null; info: SearchInfo; lines: SearchInfo[] };
+
+// Transposition table entry, where the bound says whether the score is exact or only a limit found by a cutoff
+type TableEntry = { depth: number; score: number; bound: "exact" | "lower" | "upper"; move?: string };
+
+const PIECE_VALUES: Record<PieceSymbol, number> = { p: 100, n: 300, b: 320, r: 500, q: 900, k: 0 };
+// A fused power is worth less than the piece itself, as it is lost along with the piece carrying it
+const FUSED_WEIGHT = 0.5;
+// Centipawns for each square a side attacks
+const MOBILITY_WEIGHT = 4;
+const MATE = 100000;
+const MAX_DEPTH = 64;
+// Entries kept before the transposition table is cleared, to bound memory in long analyses
+const TABLE_SIZE = 500000;
+
+/**
+ * Alpha-beta search with iterative deepening, quiescence search over captures and a transposition table keyed on the
+ * full fusion state. The table is kept between searches until newGame() is called.
+ */
+export default class FusionEngine {
+    #table = new Map<string, TableEntry>();
+    #nodes = 0;
+    #deadline = Infinity;
+    #stopped = false;
+    #interrupted?: () => boolean;
+
+    newGame() {
+        this.#table.clear();
+    }
+
+    /**
+     * Search a position to the given depth or for the given time, whichever ends first.
+     * The board is copied, so it is left untouched and none of its listeners are called.
+     */
+    search(
+        board: FusionBoard,
+        { depth = MAX_DEPTH, movetime, multipv = 1, interrupted, onInfo }: SearchOptions = {}
+    ): SearchResult {
+        const root = board.clone();
+        const start = Date.now();
+        this.#nodes = 0;
+        this.#stopped = false;
+        this.#interrupted = interrupted;
+        this.#deadline = movetime === undefined ? Infinity : start + movetime;
+
+        // Until the first iteration completes, any legal move is better than none
+        const moves = root.generateLegalMoves();
+        const info = { depth: 0, multipv: 1, score: { cp: this.evaluate(root) }, nodes: 0, time: 0, pv: [] };
+        let result: SearchResult = { bestMove: moves.length > 0 ? toUci(moves[0]) : null, info, lines: [info] };
+        if (moves.length === 0) return result;
+
+        for (let current = 1; current <= Math.min(depth, MAX_DEPTH); current++) {
+            const found = this._searchRoot(root, moves, current, Math.max(1, multipv));
+            if (this.#stopped) break;
+            const lines = found.map(({ move, score }, index) => {
+                root.makeMove(move);
+                const pv = [toUci(move), ...this._principalVariation(root, current - 1)];
+                root.unmakeMove();
+                const time = Date.now() - start;
+                return { depth: current, multipv: index + 1, score: toScore(score), nodes: this.#nodes, time, pv };
+            });
+            result = { bestMove: lines[0].pv[0], info: lines[0], lines };
+            lines.forEach((line) => onInfo?.(line));
+            // There is nothing more to find once a forced mate is known
+            if (Math.abs(found[0].score) > MATE - MAX_DEPTH) break;
+        }
+        return result;
+    }
+
+    /**
+     * Static evaluation in centipawns from the point of view of the side to move, counting material with
+     * fused powers and king fusions, and the number of squares each side attacks.
+     */
+    evaluate(board: FusionBoard): number {
+        let score = 0;
+        for (const square of SQUARES) {
+            const piece = board.get(square);
+            if (!piece) continue;
+            const fused = board.getFusedPiece(square);
+            const value = PIECE_VALUES[piece.type] + (fused ? FUSED_WEIGHT * PIECE_VALUES[fused] : 0);
+            score += piece.color === "w" ? value : -value;
+        }
+        const mobility = Object.keys(board.attackMap("w")).length - Object.keys(board.attackMap("b")).length;
+        score += MOBILITY_WEIGHT * mobility;
+        return Math.round(board.turn() === "w" ? score : -score);
+    }
+
+    private _negamax(board: FusionBoard, depth: number, alpha: number, beta: number, ply: number): number {
+        if (this._shouldStop()) return 0;
+        const key = tableKey(board);
+        const entry = this.#table.get(key);
+        if (entry && entry.depth >= depth && ply > 0) {
+            const score = fromTable(entry.score, ply);
+            if (entry.bound === "exact") return score;
+            if (entry.bound === "lower" && score >= beta) return score;
+            if (entry.bound === "upper" && score <= alpha) return score;
+        }
+        if (depth === 0) return this._quiesce(board, alpha, beta);
+
+        const moves = board.generateLegalMoves();
+        if (moves.length === 0) return board.isInCheck() ? -(MATE - ply) : 0;
+
+        const start = alpha;
+        let best = -MATE - 1;
+        let bestMove: string | undefined;
+        for (const move of orderMoves(moves, entry?.move)) {
+            board.makeMove(move);
+            const score = -this._negamax(board, depth - 1, -beta, -alpha, ply + 1);
+            board.unmakeMove();
+            if (this.#stopped) return 0;
+            if (score > best) {
+                best = score;
+                bestMove = toUci(move);
+            }
+            alpha = Math.max(alpha, score);
+            if (alpha >= beta) break;
+        }
+
+        if (this.#table.size >= TABLE_SIZE) this.#table.clear();
+        const bound = best <= start ? "upper" : best >= beta ? "lower" : "exact";
+        this.#table.set(key, { depth, score: toTable(best, ply), bound, move: bestMove });
+        return best;
+    }
+
+    // Score every root move, where only moves that could be among the best lines so far need an exact score
+    private _searchRoot(
+        board: FusionBoard,
+        moves: FusionMove[],
+        depth: number,
+        count: number
+    ): Array<{ move: FusionMove; score: number }> {
+        const key = tableKey(board);
+        const lines: Array<{ move: FusionMove; score: number }> = [];
+        for (const move of orderMoves(moves, this.#table.get(key)?.move)) {
+            const threshold = lines.length < count ? -MATE - 1 : lines[count - 1].score;
+            board.makeMove(move);
+            const score = -this._negamax(board, depth - 1, -MATE - 1, -threshold, 1);
+            board.unmakeMove();
+            if (this.#stopped) return [];
+            // Anything at or below the threshold is only a bound, and cannot displace a line already found
+            if (score <= threshold) continue;
+            lines.push({ move, score });
+            lines.sort((a, b) => b.score - a.score);
+        }
+
+        // The root is stored like any other position, so the best move is tried first in the next iteration
+        const [best] = lines;
+        this.#table.set(key, { depth, score: toTable(best.score, 0), bound: "exact", move: toUci(best.move) });
+        return lines.slice(0, count);
+    }
+
+    // Keep searching captures and promotions until the position is quiet, so that exchanges are not cut off halfway
+    private _quiesce(board: FusionBoard, alpha: number, beta: number): number {
+        if (this._shouldStop()) return 0;
+        const standPat = this.evaluate(board);
+        if (standPat >= beta) return standPat;
+        alpha = Math.max(alpha, standPat);
+
+        const moves = board.generateLegalMoves().filter((move) => move.captured || move.promotion);
+        for (const move of orderMoves(moves)) {
+            board.makeMove(move);
+            const score = -this._quiesce(board, -beta, -alpha);
+            board.unmakeMove();
+            if (this.#stopped) return 0;
+            if (score >= beta) return score;
+            alpha = Math.max(alpha, score);
+        }
+        return alpha;
+    }
+
+    private _shouldStop(): boolean {
+        // Checking the clock is slow enough that it is only done every so often
+        if ((++this.#nodes & 1023) === 0 && (Date.now() > this.#deadline || this.#interrupted?.())) {
+            this.#stopped = true;
+        }
+        return this.#stopped;
+    }
+
+    // Follow the best moves stored in the transposition table from the root
+    private _principalVariation(board: FusionBoard, depth: number): string[] {
+        const pv: string[] = [];
+        const seen = new Set<string>();
+        while (pv.length < depth) {
+            const key = tableKey(board);
+            const uci = this.#table.get(key)?.move;
+            const move = uci && board.generateLegalMoves().find((candidate) => toUci(candidate) === uci);
+            if (!move || seen.has(key)) break;
+            seen.add(key);
+            pv.push(uci);
+            board.makeMove(move);
+        }
+        pv.forEach(() => board.unmakeMove());
+        return pv;
+    }
+}
+
+/**
+ * Write a generated move in UCI notation, such as e7e8q.
+ */
+export function toUci(move: FusionMove): string {
+    return move.from + move.to + (move.promotion ?? "");
+}
+
+// Positions are the same when the pieces, fused pieces, side to move, castling rights and en passant square all
+// match, so these make up the transposition table key, without the move counters
+// Lineage never changes the moves of a position, so only the fused pieces themselves are kept
+function tableKey(board: FusionBoard): string {
+    const [placement, turn, castling, ep, , , fused = ""] = board.export().split(" ");
+    return [placement, turn, castling, ep, fused.replace(/:[^,]*/g, "")].join(" ");
+}
+
+// Search the moves most likely to be good first, as alpha-beta prunes more when the best move is tried early
+function orderMoves(moves: FusionMove[], first?: string): FusionMove[] {
+    const priority = (move: FusionMove) => {
+        if (first && toUci(move) === first) return Infinity;
+        let score = 0;
+        if (move.captured) {
+            // Most valuable victim, least valuable attacker
+            const victim = PIECE_VALUES[move.captured] + (move.capturedFused ? PIECE_VALUES[move.capturedFused] : 0);
+            score += 10 * victim - PIECE_VALUES[move.piece];
+        }
+        if (move.promotion) score += PIECE_VALUES[move.promotion];
+        return score;
+    };
+    return moves
+        .map((move) => ({ move, priority: priority(move) }))
+        .sort((a, b) => b.priority - a.priority)
+        .map(({ move }) => move);
+}
+
+// Mate scores are stored relative to the position, so that they stay correct when it is reached at another ply
+function toTable(score: number, ply: number): number {
+    if (score > MATE - MAX_DEPTH) return score + ply;
+    if (score < -MATE + MAX_DEPTH) return score - ply;
+    return score;
+}
+
+function fromTable(score: number, ply: number): number {
+    if (score > MATE - MAX_DEPTH) return score - ply;
+    if (score < -MATE + MAX_DEPTH) return score + ply;
+    return score;
+}
+
+function toScore(score: number): SearchScore {
+    if (Math.abs(score) <= MATE - MAX_DEPTH) return { cp: score };
+    // Plies until mate, counted as full moves for the side that mates
+    const plies = MATE - Math.abs(score);
+    return { mate: score > 0 ? Math.ceil(plies / 2) : -Math.ceil(plies / 2) };
+}
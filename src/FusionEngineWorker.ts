@@ -0,0 +1,23 @@
+/**
+ * Web worker running the native Fusion Chess engine, spoken to with UCI-style text messages so that it can be used
+ * in the same way as Stockfish. Positions are given as Fusion export strings with `position ffen`.
+ * @author Lucas Bubner, 2023
+ */
+import FusionProtocol from "./FusionProtocol";
+
+// The DOM library types `self` as a window, so the worker scope is described by the Worker interface instead
+const scope = self as unknown as Worker;
+
+// A search holds the worker until it ends, so stop cannot be read while it runs. When the page is cross-origin
+// isolated, the flag is shared with the page instead, which sets it before sending stop and is cleared here on stop.
+const stopFlag = self.crossOriginIsolated ? new Int32Array(new SharedArrayBuffer(4)) : null;
+const protocol = new FusionProtocol(
+    (line) => scope.postMessage(line),
+    () => stopFlag !== null && Atomics.load(stopFlag, 0) === 1
+);
+if (stopFlag) scope.postMessage(stopFlag);
+
+scope.onmessage = (event: MessageEvent<string>) => {
+    if (stopFlag && event.data.trim() === "stop") Atomics.store(stopFlag, 0, 0);
+    protocol.handle(event.data);
+};
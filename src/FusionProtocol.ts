@@ -0,0 +1,134 @@
+/**
+ * UCI-style text protocol for Fusion Chess, shared by the engine's web worker and the Node adapter.
+ * Positions are given as Fusion export strings with `position ffen`, and moves are always in UCI notation.
+ * Chess960 positions carry the chess960 token of the export string, and castle with the king taking its own rook.
+ * @author Lucas Bubner, 2023
+ */
+import { PieceSymbol, Square } from "chess.js/src/chess";
+import FusionBoard from "./FusionBoard";
+import FusionEngine, { SearchInfo, toUci } from "./FusionEngine";
+
+// Depth searched by a go command without a depth, movetime or infinite, so that it always ends by itself
+const DEFAULT_DEPTH = 4;
+
+function formatInfo({ depth, multipv, score, nodes, time, pv }: SearchInfo): string {
+    const value = "mate" in score ? `mate ${score.mate}` : `cp ${score.cp}`;
+    return `info depth ${depth} multipv ${multipv} score ${value} nodes ${nodes} time ${time} pv ${pv.join(" ")}`;
+}
+
+/**
+ * Reads protocol commands one line at a time and answers through the given callback.
+ * Supported commands are uci, isready, ucinewgame, setoption, position, go, stop, legalmoves and quit.
+ * The only option is MultiPV, the number of best lines to search for.
+ * Searches run synchronously, so stop is only read once the search has ended. Callers that read commands on another
+ * thread set the interrupt given as the interrupted callback when stop arrives, which ends the search with its best
+ * move so far, and stop is then passed on here to clear it.
+ */
+export default class FusionProtocol {
+    #engine = new FusionEngine();
+    #board = new FusionBoard();
+    #multipv = 1;
+    #send: (line: string) => void;
+    #interrupted?: () => boolean;
+
+    constructor(send: (line: string) => void, interrupted?: () => boolean) {
+        this.#send = send;
+        this.#interrupted = interrupted;
+    }
+
+    /**
+     * Handle a single command line, returning false once quit has been received.
+     * Errors are reported as `info string error` lines rather than thrown.
+     */
+    handle(line: string): boolean {
+        const [command, ...args] = line.trim().split(/\s+/);
+        try {
+            switch (command) {
+                case "uci":
+                    this.#send("id name Fusion Engine");
+                    this.#send("id author Lucas Bubner");
+                    this.#send("option name MultiPV type spin default 1 min 1 max 64");
+                    this.#send("uciok");
+                    break;
+                case "isready":
+                    this.#send("readyok");
+                    break;
+                case "ucinewgame":
+                    this.#engine.newGame();
+                    this.#board = new FusionBoard();
+                    break;
+                case "setoption":
+                    this._setOption(args);
+                    break;
+                case "position":
+                    this._setPosition(args);
+                    break;
+                case "go":
+                    this._go(args);
+                    break;
+                case "stop":
+                    // The interrupt has ended the search and its bestmove has been sent by the time stop is read
+                    break;
+                case "legalmoves":
+                    this.#send(["legalmoves", ...this.#board.generateLegalMoves().map(toUci)].join(" "));
+                    break;
+                case "quit":
+                    return false;
+                case "":
+                    break;
+                default:
+                    this.#send(`info string error Unknown command ${command}`);
+            }
+        } catch (e) {
+            this.#send(`info string error ${e instanceof Error ? e.message : String(e)}`);
+        }
+        return true;
+    }
+
+    private _setPosition(args: string[]) {
+        const movesAt = args.indexOf("moves");
+        const setup = args.slice(1, movesAt === -1 ? undefined : movesAt).join(" ");
+        const board = new FusionBoard();
+        // Plain FENs are valid export strings, so both fen and ffen are accepted
+        if (args[0] === "ffen" || args[0] === "fen") board.import(setup);
+        else if (args[0] !== "startpos") throw new Error(`Expected startpos, fen or ffen, got ${args[0] ?? "nothing"}`);
+        for (const uci of movesAt === -1 ? [] : args.slice(movesAt + 1)) {
+            const promotion = (uci[4] ?? "q") as PieceSymbol;
+            if (!board.movePiece(uci.slice(0, 2) as Square, uci.slice(2, 4) as Square, promotion)) {
+                throw new Error(`Illegal move ${uci}`);
+            }
+        }
+        // The previous position is kept if any of the moves are illegal
+        this.#board = board;
+    }
+
+    private _setOption(args: string[]) {
+        // Option names may contain spaces, as in setoption name <name> value <value>
+        const valueAt = args.indexOf("value");
+        const name = args.slice(1, valueAt === -1 ? undefined : valueAt).join(" ");
+        const value = valueAt === -1 ? "" : args.slice(valueAt + 1).join(" ");
+        if (name.toLowerCase() !== "multipv") throw new Error(`Unknown option ${name}`);
+        const multipv = parseInt(value);
+        if (!(multipv >= 1 && multipv <= 64)) throw new Error(`MultiPV must be from 1 to 64, got ${value}`);
+        this.#multipv = multipv;
+    }
+
+    private _go(args: string[]) {
+        const option = (name: string) => {
+            const index = args.indexOf(name);
+            return index === -1 ? undefined : parseInt(args[index + 1]);
+        };
+        const depth = option("depth");
+        const movetime = option("movetime");
+        // Without any limit the search would run to the maximum depth, while go infinite is meant to wait for stop
+        const limited = depth !== undefined || movetime !== undefined || args.includes("infinite");
+        const { bestMove } = this.#engine.search(this.#board, {
+            depth: limited ? depth : DEFAULT_DEPTH,
+            movetime,
+            multipv: this.#multipv,
+            interrupted: this.#interrupted,
+            onInfo: (info) => this.#send(formatInfo(info)),
+        });
+        this.#send(`bestmove ${bestMove ?? "(none)"}`);
+    }
+}
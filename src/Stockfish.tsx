@@ -2,41 +2,133 @@
 /**
  * Stockfish compatibility module for displaying current evaluation status information.
  * Compatible with FEN strings only. Limitations include FusionChess's dual board nature.
+ * The native Fusion engine can be used instead, which understands fused pieces and takes Fusion export strings.
  * @author Lucas Bubner, 2023
  */
 import { useEffect, useRef, useState, Fragment } from "react";
+import { PieceSymbol, Square } from "chess.js/src/chess";
+import FusionBoard from "./FusionBoard";
+import { AnalysisSettings } from "./EngineSettings";
+import EngineWorker, { EngineSearch } from "./EngineWorker";
+
+/**
+ * One of the best lines found by an engine, written in Fusion SAN up to the first move the fusion rules refuse.
+ */
+export type EngineLine = {
+    // The virtual board shows fused pieces as their fused power, so its lines are suggested separately
+    board: "primary" | "virtual";
+    rank: number;
+    depth: number;
+    // Score from white's point of view, such as +0.35 or -M2
+    score: string;
+    uci: string[];
+    san: string[];
+    // Whether the first move of the line can be played under the fusion rules
+    legal: boolean;
+};
+
+type PvLine = { depth: number; score: string; pv: string[] };
+
+// Replay each line on a FusionBoard to write it in Fusion SAN, as the engines only know standard chess or UCI
+function toEngineLines(position: string, lines: Record<number, PvLine>, board: EngineLine["board"]): EngineLine[] {
+    return Object.entries(lines)
+        .sort(([a], [b]) => Number(a) - Number(b))
+        .map(([rank, { depth, score, pv }]) => {
+            const game = new FusionBoard();
+            game.import(position);
+            const san: string[] = [];
+            for (const uci of pv) {
+                const promotion = (uci[4] ?? "q") as PieceSymbol;
+                const result = game.tryMove(uci.slice(0, 2) as Square, uci.slice(2, 4) as Square, promotion);
+                if (!result.ok) break;
+                san.push(result.move.san);
+            }
+            return { board, rank: Number(rank), depth, score, uci: pv, san, legal: san.length > 0 };
+        });
+}
 
 class Engine {
-    engine: Worker;
-    fusionengine: Worker;
+    engine: EngineWorker;
+    // Only Stockfish needs a second engine for the virtual board, as the native engine sees fused pieces itself
+    fusionengine: EngineWorker | null;
+    native: boolean;
     eval: string[];
     fen: string[] = ["", ""];
-    depth: number;
     evalBarHeight: number;
-
-    constructor(fen: string, vfen: string, depth: number) {
-        this.engine = new Worker("/stockfish.js");
-        this.fusionengine = new Worker("/stockfish.js");
+    // The latest line of each rank, for the primary board and then the virtual board
+    lines: Array<Record<number, PvLine>> = [{}, {}];
+
+    constructor(native = false) {
+        const create = () =>
+            native
+                ? new Worker(new URL("./FusionEngineWorker.ts", import.meta.url), { type: "module" })
+                : new Worker("/stockfish.js");
+        this.engine = new EngineWorker(create);
+        this.fusionengine = native ? null : new EngineWorker(create);
+        this.native = native;
         this.eval = ["0.0", "nil"];
-        this.fen[0] = fen;
-        this.fen[1] = vfen;
-        this.depth = depth;
-        this.engine.onmessage = (e) => this.onStockfishMessage(e, this.fen, "e");
-        this.fusionengine.onmessage = (e) => this.onStockfishMessage(e, this.fen, "v");
         this.evalBarHeight = 50;
     }
 
-    onStockfishMessage = (event: MessageEvent, fen: string[], engine: string) => {
-        // console.debug(`SF15: ${event.data}`);
-        if (event.data.startsWith("info depth")) {
+    /**
+     * Search new positions on the running workers, stopping whatever they were searching before.
+     * Output is passed on only while it belongs to the positions being searched.
+     */
+    analyse(fen: string, vfen: string, settings: AnalysisSettings, onMessage: (line: string, engine: string) => void) {
+        this.fen = [fen, vfen];
+        this.eval = ["0.0", "nil"];
+        this.lines = [{}, {}];
+        const { mode, depth, movetime, threads, hash, multipv } = settings;
+        const limit = mode === "depth" ? `depth ${depth}` : mode === "movetime" ? `movetime ${movetime}` : "infinite";
+        // The native engine runs on a single thread and sizes its own table, so only Stockfish takes these
+        const options: EngineSearch["options"] = { MultiPV: multipv };
+        if (!this.native) Object.assign(options, { Threads: threads, Hash: hash });
+        const search = (index: number, engine: string): EngineSearch => ({
+            fen: this.fen[index],
+            format: this.native ? "ffen" : "fen",
+            go: `go ${limit}`,
+            options,
+            onMessage: (line: string, tag: string) => {
+                if (tag !== this.fen[index]) return;
+                this.onStockfishMessage(line, tag, engine);
+                onMessage(line, engine);
+            },
+        });
+
+        // Run classical evaluation with Stockfish 15, or a fusion-aware evaluation with the native engine
+        this.engine.analyse(search(0, "e"));
+        // Do we have anything on the virtual board? Check the differences and if they are
+        // then run an evaluation on the virtual board
+        if (this.fusionengine && fen !== vfen) this.fusionengine.analyse(search(1, "v"));
+        else this.fusionengine?.stop();
+    }
+
+    stop() {
+        this.engine.stop();
+        this.fusionengine?.stop();
+    }
+
+    terminate() {
+        this.engine.terminate();
+        this.fusionengine?.terminate();
+    }
+
+    onStockfishMessage = (data: string, fen: string, engine: string) => {
+        // console.debug(`SF15: ${data}`);
+        if (data.startsWith("info depth")) {
             let messageEvalType;
-            const message = event.data.split(" ");
-            // Determine the current turn from the FEN, should be the same
-            let turn;
-            if (engine === "e") {
-                turn = fen[0].split(" ")[1];
-            } else {
-                turn = fen[1].split(" ")[1];
+            const message = data.split(" ");
+            // Determine the current turn from the FEN the output was tagged with
+            const turn = fen.split(" ")[1];
+
+            // Deeper info for a rank replaces the line that was there, and only info with a pv describes a line
+            if (message.includes("pv")) {
+                const rank = message.includes("multipv") ? parseInt(message[message.indexOf("multipv") + 1]) : 1;
+                this.lines[engine === "v" ? 1 : 0][rank] = {
+                    depth: parseInt(message[2]),
+                    score: this._formatScore(message, turn),
+                    pv: message.slice(message.indexOf("pv") + 1),
+                };
             }
 
             if (message.includes("mate")) {
@@ -45,7 +137,7 @@ class Engine {
                 messageEvalType = message[message.indexOf("cp") + 1];
             }
 
-            const evaluation = this._convertEvaluation(String(messageEvalType / 100.0), turn);
+            const evaluation = this._convertEvaluation(String(Number(messageEvalType) / 100.0), turn);
             // Check if the eval is NaN
             if (evaluation.includes("NaN")) {
                 // Must be a M value
@@ -76,6 +168,11 @@ class Engine {
                     : 50 - this._calcHeight(Math.abs(Number(choseneval)));
             }
             this.evalBarHeight = heightEval;
+        } else if (data.startsWith("bestmove")) {
+            // A search that ends before any info still has a best move to suggest
+            const [, best] = data.split(" ");
+            const lines = this.lines[engine === "v" ? 1 : 0];
+            if (!lines[1] && best && best !== "(none)") lines[1] = { depth: 0, score: "", pv: [best] };
         }
     };
 
@@ -134,6 +231,17 @@ class Engine {
         }
     };
 
+    private _formatScore = (message: string[], turn: string) => {
+        // Engines score from the side to move, but lines are shown from white's point of view like the bar
+        const sign = turn === "w" ? 1 : -1;
+        if (message.includes("mate")) {
+            const mate = sign * parseInt(message[message.indexOf("mate") + 1]);
+            return `${mate < 0 ? "-" : "+"}M${Math.abs(mate)}`;
+        }
+        const cp = sign * parseInt(message[message.indexOf("cp") + 1]);
+        return `${cp < 0 ? "-" : "+"}${(Math.abs(cp) / 100).toFixed(2)}`;
+    };
+
     private _convertEvaluation = (ev: string, turn: string) => {
         if (ev.startsWith("M")) {
             ev = `M${ev.substring(1)}`;
@@ -152,20 +260,53 @@ class Engine {
 function Stockfish({
     fen,
     vfen,
-    depth,
+    position,
+    settings,
     shouldRun,
+    native = false,
+    onLines,
 }: {
+    // The native engine is given a Fusion export string as the fen, and has no use for the virtual board
     fen: string | null;
     vfen: string;
-    depth: number;
+    // Export string of the game, which the engine's lines are replayed on to check them against the fusion rules
+    position: string;
+    settings: AnalysisSettings;
     shouldRun: boolean;
+    native?: boolean;
+    onLines?: (lines: EngineLine[]) => void;
 }) {
     const stockfishRef = useRef<Engine | null>(null);
     const [evals, setEvals] = useState<string>("0.0");
     const [eData, setEdata] = useState<Array<string>>([]);
     const [heightDef, setHeightDef] = useState<number>(75);
+    const [lines, setLines] = useState<EngineLine[]>([]);
 
+    const name = native ? "Fusion Engine" : "Stockfish 15";
+
+    useEffect(() => {
+        onLines?.(lines);
+    }, [lines]);
+
+    // The workers are kept for as long as the same engine is in use, instead of being replaced on every position
     useEffect(() => {
+        return () => {
+            // Avoid any cataclysmic quantum resonance cascades by freeing web worker memory
+            stockfishRef.current?.terminate();
+            stockfishRef.current = null;
+        };
+    }, [native]);
+
+    useEffect(() => {
+        setLines([]);
+        if (!fen && native) {
+            // The native engine is bundled with the app, so there is nothing to check
+            setEdata(["Fusion Engine is ready."]);
+            setEvals("0.0");
+            setHeightDef(50);
+            return;
+        }
+
         if (!fen) {
             setEdata(["Setting up Stockfish 15..."]);
             const reqs = [new XMLHttpRequest(), new XMLHttpRequest(), new XMLHttpRequest()];
@@ -220,34 +361,20 @@ function Stockfish({
         }
 
         // Clear edata array for next evaluation
-        if (!eData.includes("Configuration has failed.")) {
+        if (native || !eData.includes("Configuration has failed.")) {
             setEdata([]);
         } else {
             // Exit if we can't use Stockfish
             return;
         }
 
-        const stockfish = stockfishRef.current ?? new Engine(fen, vfen, depth);
-
-        // Run classical evaluation with Stockfish 15
-        stockfish.engine.postMessage("uci");
-        stockfish.engine.postMessage("ucinewgame");
-        stockfish.engine.postMessage(`position fen ${stockfish.fen[0]}`);
-        stockfish.engine.postMessage(`go depth ${depth}`);
-
-        // Do we have anything on the virtual board? Check the differences and if they are
-        // then run an evaluation on the virtual board
-        if (stockfish.fen[0] !== stockfish.fen[1]) {
-            stockfish.fusionengine.postMessage("uci");
-            stockfish.fusionengine.postMessage("ucinewgame");
-            stockfish.fusionengine.postMessage(`position fen ${stockfish.fen[1]}`);
-            stockfish.fusionengine.postMessage(`go depth ${depth}`);
-        }
+        if (!stockfishRef.current) stockfishRef.current = new Engine(native);
+        const stockfish = stockfishRef.current;
 
         // Use a debounce timeout to prevent the eval from updating rapidly
         let debounceTimeout: ReturnType<typeof setTimeout>;
 
-        const updateEval = (event: MessageEvent, type: string) => {
+        const updateEval = (line: string, type: string) => {
             if (shouldRun) {
                 setEdata((eData) => [
                     ...eData,
@@ -255,10 +382,10 @@ function Stockfish({
                         hour: "2-digit",
                         minute: "2-digit",
                         second: "2-digit",
-                    })}] ${event.data}`,
+                    })}] ${line}`,
                 ]);
             } else {
-                setEdata(["Game end condition reached.", "Stockfish 15 evaluation halted."]);
+                setEdata(["Game end condition reached.", `${name} evaluation halted.`]);
                 return;
             }
             clearTimeout(debounceTimeout);
@@ -269,21 +396,22 @@ function Stockfish({
                 if (evaluation && evaluation !== "NaN" && evaluation !== "info") setEvals(evaluation);
                 // Don't set the eval height if it is NaN, we cannot translate it and it usually only comes up when it is M0 (checkmate)
                 if (!isNaN(stockfish.evalBarHeight)) setHeightDef(stockfish.evalBarHeight);
+                setLines([
+                    ...toEngineLines(position, stockfish.lines[0], "primary"),
+                    ...toEngineLines(position, stockfish.lines[1], "virtual"),
+                ]);
             }, 500);
         };
-        stockfish.engine.addEventListener("message", (e) => updateEval(e, "s"));
-        stockfish.fusionengine.addEventListener("message", (e) => updateEval(e, "v"));
+        stockfish.analyse(fen, vfen, settings, (line, engine) => {
+            updateEval(line, engine === "v" ? "v" : native ? "f" : "s");
+        });
 
         return () => {
             clearTimeout(debounceTimeout);
-            stockfish.engine.removeEventListener("message", (e) => updateEval(e, "s"));
-            stockfish.fusionengine.removeEventListener("message", (e) => updateEval(e, "v"));
-
-            // Avoid any cataclysmic quantum resonance cascades by freeing web worker memory
-            stockfish.engine.terminate();
-            stockfish.fusionengine.terminate();
+            // The search is stopped rather than the worker, which is reused for the next position
+            stockfish.stop();
         };
-    }, [fen, depth]);
+    }, [fen, native, settings]);
 
     return (
         <>
@@ -343,10 +471,40 @@ function Stockfish({
                 </p>
             </div>
             <div id="stockfish" style={{ textAlign: "center" }}>
-                <p className="title">Stockfish 15</p>
+                <p className="title">{name}</p>
                 Status: {evals === "⌀" ? "UNAVAILABLE" : fen ? "ACTIVE" : "STANDBY"} <br />
                 Current engine evaluation: {evals.startsWith("M") ? evals.replace("-", "") : evals} <br />
-                Max depth={depth} <br /> <br />
+                {settings.mode === "depth"
+                    ? `Max depth=${settings.depth}`
+                    : settings.mode === "movetime"
+                        ? `Move time=${settings.movetime}ms`
+                        : "Infinite analysis"}{" "}
+                <br />
+                {!native && `Threads=${settings.threads} Hash=${settings.hash}MB `}
+                MultiPV={settings.multipv} <br /> <br />
+                {(["primary", "virtual"] as const).map((board) => {
+                    const boardLines = lines.filter((line) => line.board === board);
+                    if (boardLines.length === 0) return null;
+                    return (
+                        <Fragment key={board}>
+                            {board === "primary" ? "Best lines:" : "Best lines on the virtual board:"}
+                            <ol className="lines">
+                                {boardLines.map((line) => (
+                                    <li
+                                        key={line.rank}
+                                        className={line.legal ? "" : "illegal"}
+                                        title={`Depth ${line.depth}: ${line.uci.join(" ")}`}
+                                    >
+                                        {line.score}{" "}
+                                        {line.legal
+                                            ? line.san.join(" ") + (line.san.length < line.uci.length ? " ..." : "")
+                                            : `${line.uci[0]} (illegal under fusion)`}
+                                    </li>
+                                ))}
+                            </ol>
+                        </Fragment>
+                    );
+                })}
                 <div
                     className="scrollelement"
                     style={{
@@ -0,0 +1,126 @@
+/**
+ * Bots for headless play, from a random mover and the native engine to external programs speaking FusionProtocol.
+ * Bots are described by a spec string:
+ *   random             Play a random legal move
+ *   search:<depth>     Search with the native engine to a fixed depth
+ *   movetime:<ms>      Search with the native engine for a fixed time
+ *   ext:<command>      Run a command that speaks the text protocol, sending `go <options>` for each move
+ * @author Lucas Bubner, 2023
+ */
+import { spawn } from "child_process";
+import { createInterface } from "readline";
+import FusionBoard from "../FusionBoard";
+import FusionEngine from "../FusionEngine";
+
+export type Bot = {
+    name: string;
+    newGame(): Promise<void>;
+    // Choose a move in UCI notation for the board, given the game so far from its starting position
+    move(board: FusionBoard, start: string, moves: string[]): Promise<string | null>;
+    close(): void;
+};
+
+// How long an external bot may take to answer any command, in milliseconds
+const EXTERNAL_TIMEOUT = 60000;
+
+function randomBot(name: string): Bot {
+    return {
+        name,
+        newGame: async () => undefined,
+        move: async (board) => {
+            const moves = board.getEveryMove();
+            return moves.length > 0 ? moves[Math.floor(Math.random() * moves.length)] : null;
+        },
+        close: () => undefined,
+    };
+}
+
+function engineBot(name: string, limits: { depth?: number; movetime?: number }): Bot {
+    const engine = new FusionEngine();
+    return {
+        name,
+        newGame: async () => engine.newGame(),
+        move: async (board) => engine.search(board, limits).bestMove,
+        close: () => undefined,
+    };
+}
+
+async function externalBot(name: string, command: string, go: string): Promise<Bot> {
+    const child = spawn(command, { shell: true, stdio: ["pipe", "pipe", "inherit"] });
+    const lines: string[] = [];
+    let waiting: (() => void) | null = null;
+    createInterface({ input: child.stdout }).on("line", (line) => {
+        lines.push(line);
+        waiting?.();
+    });
+    child.on("exit", () => waiting?.());
+
+    const send = (line: string) => child.stdin.write(`${line}\n`);
+    // Read lines until one starts with the expected token, returning its arguments
+    const expect = (token: string) =>
+        new Promise<string[]>((resolve, reject) => {
+            const timeout = setTimeout(() => {
+                reject(new Error(`${name} did not send ${token} in time`));
+            }, EXTERNAL_TIMEOUT);
+            const check = () => {
+                while (lines.length > 0) {
+                    const [first, ...args] = (lines.shift() as string).trim().split(/\s+/);
+                    if (first !== token) continue;
+                    clearTimeout(timeout);
+                    waiting = null;
+                    resolve(args);
+                    return;
+                }
+                if (child.exitCode !== null) {
+                    clearTimeout(timeout);
+                    reject(new Error(`${name} exited before sending ${token}`));
+                }
+            };
+            waiting = check;
+            check();
+        });
+
+    send("uci");
+    await expect("uciok");
+    return {
+        name,
+        newGame: async () => {
+            send("ucinewgame");
+            send("isready");
+            await expect("readyok");
+        },
+        move: async (_, start, moves) => {
+            send(`position ffen ${start}${moves.length > 0 ? ` moves ${moves.join(" ")}` : ""}`);
+            send(`go ${go}`.trim());
+            const [move] = await expect("bestmove");
+            return !move || move === "(none)" ? null : move;
+        },
+        close: () => {
+            send("quit");
+            child.stdin.end();
+        },
+    };
+}
+
+/**
+ * Create a bot from its spec string, where external bots are given the options for each go command.
+ */
+export async function createBot(spec: string, go = "movetime 1000"): Promise<Bot> {
+    const [kind, ...rest] = spec.split(":");
+    const value = rest.join(":");
+    switch (kind) {
+        case "random":
+            return randomBot(spec);
+        case "search":
+        case "movetime": {
+            const limit = parseInt(value);
+            if (!(limit > 0)) throw new Error(`Bot ${spec} needs a positive ${kind === "search" ? "depth" : "time"}`);
+            return engineBot(spec, kind === "search" ? { depth: limit } : { movetime: limit });
+        }
+        case "ext":
+            if (!value) throw new Error(`Bot ${spec} needs a command to run`);
+            return externalBot(spec, value, go);
+        default:
+            throw new Error(`Unknown bot ${spec}, expected random, search:<depth>, movetime:<ms> or ext:<command>`);
+    }
+}
@@ -0,0 +1,90 @@
+/**
+ * Headless checks for behaviour that perft and the fuzzer cannot reach, each describing the problem it found.
+ * Usage: npm test
+ * @author Lucas Bubner, 2023
+ */
+import EngineWorker from "../EngineWorker";
+import FusionBoard from "../FusionBoard";
+
+type Check = { name: string; run: () => string | null };
+
+// A stand-in for an engine's web worker, answering uci straight away and recording everything sent to it
+class FakeWorker {
+    onmessage: ((event: { data: string }) => void) | null = null;
+    received: string[] = [];
+    terminated = false;
+
+    postMessage(line: string) {
+        this.received.push(line);
+        if (line === "uci") this.onmessage?.({ data: "uciok" });
+    }
+
+    terminate() {
+        this.terminated = true;
+    }
+}
+
+// Timers that only run when asked, so that a watchdog can be fired without waiting for it
+function fakeTimers(): () => void {
+    const timers = new Map<number, () => void>();
+    let next = 1;
+    (globalThis as unknown as { window: Pick<Window, "setTimeout" | "clearTimeout"> }).window = {
+        setTimeout: ((callback: () => void) => {
+            timers.set(next, callback);
+            return next++;
+        }) as Window["setTimeout"],
+        clearTimeout: (id?: number) => void timers.delete(id ?? 0),
+    };
+    return () => {
+        const pending = [...timers.values()];
+        timers.clear();
+        pending.forEach((callback) => callback());
+    };
+}
+
+const CHECKS: Check[] = [
+    {
+        // Stockfish.tsx terminates the engine before its analysis cleanup stops the search
+        name: "Stopping a search after terminating the engine",
+        run: () => {
+            const runTimers = fakeTimers();
+            const workers: FakeWorker[] = [];
+            const engine = new EngineWorker(() => {
+                workers.push(new FakeWorker());
+                return workers[workers.length - 1] as unknown as Worker;
+            });
+            const onMessage = () => undefined;
+            engine.analyse({ fen: "startpos", format: "fen", go: "go infinite", options: {}, onMessage });
+            engine.terminate();
+            const sent = workers[0].received.length;
+            engine.stop();
+            runTimers();
+            if (workers.length !== 1) return `The watchdog started ${workers.length - 1} new worker(s)`;
+            if (!workers[0].terminated) return "The worker was not terminated";
+            if (workers[0].received.length !== sent) return `Sent ${workers[0].received.slice(sent)} after terminate`;
+            return null;
+        },
+    },
+    {
+        name: "A fused minor piece against a bare king is not a draw",
+        run: () => {
+            const board = new FusionBoard();
+            // Without the fusion this is the lone bishop that chess calls insufficient material
+            board.import("8/8/8/4k3/8/8/8/2B1K3 w - - 0 1");
+            if (!board.isInsufficientMaterial()) return "A lone bishop is not insufficient material";
+            board.import("8/8/8/4k3/8/8/8/2B1K3 w - - 0 1 c1=r,");
+            const result = board.getResult();
+            return result ? `A bishop fused with a rook ends the game by ${result.reason}` : null;
+        },
+    },
+];
+
+let failures = 0;
+for (const { name, run } of CHECKS) {
+    const problem = run();
+    if (problem) failures++;
+    console.log(problem ? `FAIL ${name}: ${problem}` : `PASS ${name}`);
+}
+
+console.log(failures > 0 ? `${failures} check(s) failed.` : "All checks passed.");
+process.exitCode = failures > 0 ? 1 : 0;
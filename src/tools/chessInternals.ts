@@ -0,0 +1,86 @@
+/**
+ * Checks on the private chess.js fields that FusionBoard reads and writes directly in _applyMove(), _saveState(),
+ * _restoreState() and cellsToChessState(), rather than rebuilding the board through load().
+ * chess.js is pinned to the exact version these were written against. If an upgrade changes its internals, these
+ * checks fail and FusionBoard has to be updated to match.
+ * @author Lucas Bubner, 2023
+ */
+import { Chess } from "chess.js/src/chess";
+
+// Every field of a chess.js board in sorted order, where FusionBoard writes all but the header, history and comments
+const FIELDS = [
+    "_board",
+    "_castling",
+    "_comments",
+    "_epSquare",
+    "_halfMoves",
+    "_header",
+    "_history",
+    "_kings",
+    "_moveNumber",
+    "_turn",
+];
+
+// A position that sets every field FusionBoard writes, with castling rights and an en passant square
+const FEN = "r3k2r/8/8/8/3pP3/8/8/R3K3 b Qkq e3 5 20";
+
+// The same position as chess.js stores it, with squares indexed 0x88 from a8 and castling rights as bit flags
+function expectedState(): Record<string, unknown> {
+    const board = new Array(128);
+    board[0x00] = { type: "r", color: "b" };
+    board[0x04] = { type: "k", color: "b" };
+    board[0x07] = { type: "r", color: "b" };
+    board[0x43] = { type: "p", color: "b" };
+    board[0x44] = { type: "p", color: "w" };
+    board[0x70] = { type: "r", color: "w" };
+    board[0x74] = { type: "k", color: "w" };
+    return {
+        _board: board,
+        _kings: { w: 0x74, b: 0x04 },
+        _turn: "b",
+        // 32 is kingside and 64 is queenside castling
+        _castling: { w: 64, b: 96 },
+        _epSquare: 0x54,
+        _halfMoves: 5,
+        _moveNumber: 20,
+    };
+}
+
+// Compare fields as JSON, ignoring the order that object keys were set in
+function canonical(value: unknown): string {
+    return JSON.stringify(value, (_, inner: unknown) => {
+        const isObject = inner && typeof inner === "object" && !Array.isArray(inner);
+        return isObject ? Object.fromEntries(Object.entries(inner).sort()) : inner;
+    });
+}
+
+/**
+ * Check that chess.js still stores a position in the fields and layout FusionBoard expects, both when reading them
+ * after load() and when writing them in place. Returns a description of each problem found.
+ */
+export function checkChessInternals(): string[] {
+    const problems: string[] = [];
+    const fields = Object.keys(new Chess()).sort();
+    if (JSON.stringify(fields) !== JSON.stringify(FIELDS)) {
+        problems.push(`Expected the fields ${FIELDS.join(", ")}, found ${fields.join(", ")}`);
+    }
+
+    // Reading: load() must fill the fields exactly as FusionBoard builds them
+    const expected = expectedState();
+    const loaded = new Chess(FEN) as unknown as Record<string, unknown>;
+    for (const [field, value] of Object.entries(expected)) {
+        if (canonical(loaded[field]) !== canonical(value)) {
+            problems.push(`${field} after load() is ${canonical(loaded[field])}, not ${canonical(value)}`);
+        }
+    }
+
+    // Writing: a board whose fields are assigned directly must play on from that position
+    const written = new Chess();
+    Object.assign(written, expected);
+    if (written.fen() !== FEN) problems.push(`Writing the fields gives ${written.fen()}, not ${FEN}`);
+    const moves = written.moves();
+    for (const move of ["O-O", "O-O-O", "dxe3"]) {
+        if (!moves.includes(move)) problems.push(`Writing the fields does not allow ${move}`);
+    }
+    return problems;
+}
@@ -0,0 +1,101 @@
+/**
+ * Headless command-line tool for checking Fusion Chess positions and games without the React app.
+ * Usage: npm run cli -- <command> [arguments]
+ *   validate <export string>      Check a position with the same checks as FusionBoard.import()
+ *   replay <pgn file>             Replay a Fusion PGN move by move, or read it from stdin with -
+ *   moves [export string]         List the legal moves of a position
+ *   perft <depth> [export string] Count the leaf nodes of the move tree, split by root move
+ *   ascii [export string]         Draw a position with its fused pieces
+ * Positions default to the initial position, and may be given with or without quotes.
+ * @author Lucas Bubner, 2023
+ */
+import { readFileSync } from "fs";
+import FusionBoard, { validateExport } from "../FusionBoard";
+
+const USAGE = `Usage: npm run cli -- <command> [arguments]
+  validate <export string>
+  replay <pgn file | ->
+  moves [export string]
+  perft <depth> [export string]
+  ascii [export string]`;
+
+function load(args: string[]): FusionBoard {
+    const board = new FusionBoard();
+    if (args.length > 0) board.import(args.join(" "));
+    return board;
+}
+
+function describeResult(board: FusionBoard): string {
+    const result = board.getResult();
+    if (!result) return "The game is still in progress.";
+    const winner = result.winner === null ? "Draw" : `${result.winner === "w" ? "White" : "Black"} wins`;
+    return `${winner} by ${result.reason}.`;
+}
+
+function validate(args: string[]): number {
+    if (args.length === 0) throw new Error("validate needs an export string");
+    const validation = validateExport(args.join(" "));
+    console.log(validation.ok ? "Valid position." : `Invalid position: ${validation.error}`);
+    return validation.ok ? 0 : 1;
+}
+
+function replay(args: string[]): number {
+    if (args.length !== 1) throw new Error("replay needs a PGN file, or - to read from stdin");
+    const board = new FusionBoard();
+    board.loadPgn(readFileSync(args[0] === "-" ? 0 : args[0], "utf8"));
+    // Step through the loaded game from the start, showing the position after every move
+    const history = board.getHistory();
+    board.goToPly(0);
+    console.log(`Start: ${board.export()}`);
+    history.forEach(({ fsan }, index) => {
+        board.redo();
+        const number = `${Math.floor(index / 2) + 1}.${index % 2 === 0 ? "" : ".."}`;
+        console.log(`${number} ${fsan}: ${board.export()}`);
+    });
+    console.log(board.ascii());
+    console.log(describeResult(board));
+    return 0;
+}
+
+function moves(args: string[]): number {
+    const board = load(args);
+    const legal = board.moves({ verbose: true });
+    legal.forEach((move) => console.log(`${move.san.padEnd(10)} ${move.lan}`));
+    console.log(`${legal.length} legal moves.`);
+    if (legal.length === 0) console.log(describeResult(board));
+    return 0;
+}
+
+function perft(args: string[]): number {
+    const depth = parseInt(args[0]);
+    if (!(depth >= 0)) throw new Error("perft needs a depth of 0 or more");
+    const board = load(args.slice(1));
+    const started = Date.now();
+    const counts = board.divide(depth);
+    for (const [move, nodes] of Object.entries(counts)) console.log(`${move}: ${nodes}`);
+    // The root itself is the only leaf at depth 0
+    const total = Object.values(counts).reduce((nodes, count) => nodes + count, depth === 0 ? 1 : 0);
+    console.log(`${total} nodes in ${Date.now() - started}ms`);
+    return 0;
+}
+
+function ascii(args: string[]): number {
+    const board = load(args);
+    console.log(board.ascii());
+    console.log(board.export());
+    return 0;
+}
+
+const COMMANDS: Record<string, (args: string[]) => number> = { validate, replay, moves, perft, ascii };
+
+const [command, ...args] = process.argv.slice(2);
+if (!command || !COMMANDS[command]) {
+    console.log(USAGE);
+    process.exit(command ? 1 : 0);
+}
+try {
+    process.exit(COMMANDS[command](args));
+} catch (e) {
+    console.log(`Error: ${e instanceof Error ? e.message : String(e)}`);
+    process.exit(1);
+}
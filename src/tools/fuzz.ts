@@ -0,0 +1,253 @@
+/**
+ * Randomised invariant fuzzer for FusionBoard, playing random legal games from getEveryMove() and checking the board
+ * after every ply. Failing games are minimised and saved as JSON fixtures that can be replayed.
+ * Usage: npm run fuzz -- [--games N] [--plies N] [--seed N] [--fixtures dir]
+ *        npm run fuzz -- --replay <fixture file or directory>
+ * @author Lucas Bubner, 2023
+ */
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from "fs";
+import { join } from "path";
+import { Color, DEFAULT_POSITION, PieceSymbol, Square, SQUARES } from "chess.js/src/chess";
+import FusionBoard from "../FusionBoard";
+import { PERFT_SUITE } from "./perftSuite";
+
+type Failure = { invariant: string; message: string; ply: number };
+
+type Fixture = Failure & { start: string; moves: string[]; seed?: number };
+
+// Small seeded generator so that a run can be repeated exactly from its seed
+function random(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function option(args: string[], name: string): string | undefined {
+    const index = args.indexOf(name);
+    return index === -1 ? undefined : args[index + 1];
+}
+
+// Add a randomly chosen promotion piece to a move that promotes, so that under-promotions are played as well
+function withPromotion(board: FusionBoard, uci: string, next: () => number): string {
+    const promotions = board
+        .generateLegalMoves({ square: uci.slice(0, 2) as Square })
+        .filter((move) => move.to === uci.slice(2, 4) && move.promotion)
+        .map((move) => move.promotion as PieceSymbol);
+    return promotions.length > 0 ? uci + promotions[Math.floor(next() * promotions.length)] : uci;
+}
+
+function playUci(board: FusionBoard, uci: string) {
+    const promotion = (uci[4] ?? "q") as PieceSymbol;
+    return board.movePiece(uci.slice(0, 2) as Square, uci.slice(2, 4) as Square, promotion);
+}
+
+function snapshot(board: FusionBoard): string {
+    return JSON.stringify(board.positions);
+}
+
+// Check that the lineage of a fused power describes that power and agrees with the piece holding it
+function checkLineage(board: FusionBoard, square: Square, power: string): string | null {
+    const info = board.getFusionInfo(square);
+    const holder = board.get(square);
+    if (!info) return `Fused ${power} on ${square} has no lineage`;
+    if (info.piece !== power) return `Lineage on ${square} describes ${info.piece}, not the fused ${power}`;
+    if (info.chain[0] !== info.origin) return `Lineage on ${square} starts at ${info.chain[0]}, not ${info.origin}`;
+    // A power taken in a single capture came from the other side, and only a longer chain can hand it back
+    if (info.chain.length === 1 && info.color === holder.color) {
+        return `Fused ${power} on ${square} came from its own ${holder.color === "w" ? "white" : "black"} side`;
+    }
+    return null;
+}
+
+// Check the board after a move, given the export string from before it
+function checkInvariants(board: FusionBoard, before: string): Omit<Failure, "ply"> | null {
+    const kings = { w: 0, b: 0 };
+    for (const square of SQUARES) {
+        const piece = board.get(square);
+        if (piece?.type === "k") kings[piece.color]++;
+    }
+    if (kings.w !== 1 || kings.b !== 1) {
+        return { invariant: "kings", message: `Found ${kings.w} white and ${kings.b} black kings` };
+    }
+
+    const [, fused, , kingFused] = board.positions;
+    for (const [square, power] of Object.entries(fused)) {
+        const piece = board.get(square as Square);
+        if (!piece || piece.type === "k") {
+            const holder = piece ? "a king" : "an empty square";
+            return { invariant: "fused-squares", message: `Fused piece on ${square} sits on ${holder}` };
+        }
+        const message = checkLineage(board, square as Square, power);
+        if (message) return { invariant: "fused-squares", message };
+    }
+    for (const [key, power] of Object.entries(kingFused)) {
+        // There is exactly one king of each colour by now, so the key must name the king found on its square
+        const king = board.findKing(key[0] as Color);
+        if (key !== `${key[0]}K` || board.getFusedPiece(king) !== power) {
+            return { invariant: "fused-squares", message: `King fusion ${key}=${power} is not on the king on ${king}` };
+        }
+        const message = checkLineage(board, king, power);
+        if (message) return { invariant: "fused-squares", message };
+    }
+
+    const after = board.export();
+    const copy = new FusionBoard();
+    copy.import(after);
+    if (snapshot(copy) !== snapshot(board)) {
+        const message = `Importing ${after} gives ${snapshot(copy)}, not ${snapshot(board)}`;
+        return { invariant: "round-trip", message };
+    }
+
+    board.undoMove();
+    const undone = board.export();
+    board.redo();
+    if (undone !== before) {
+        return { invariant: "undo", message: `Undoing to ${undone}, expected ${before}` };
+    }
+    if (board.export() !== after) {
+        return { invariant: "undo", message: `Redoing to ${board.export()}, expected ${after}` };
+    }
+
+    // Importing in the middle of a game starts a new one, so nothing from the old game can be undone or exported
+    const restarted = board.clone();
+    restarted.import(before);
+    if (restarted.canUndo || restarted.canRedo || restarted.getHistory().length > 0) {
+        return { invariant: "import", message: `Importing ${before} mid-game kept the old moves` };
+    }
+    if (restarted.export() !== before) {
+        return { invariant: "import", message: `Importing ${before} mid-game gives ${restarted.export()}` };
+    }
+    return null;
+}
+
+// Play moves on a fresh board from the start, returning the first failure, if any
+function replay(start: string, moves: string[]): Failure | null {
+    const board = new FusionBoard();
+    board.import(start);
+    for (const [ply, uci] of moves.entries()) {
+        const before = board.export();
+        const listed = board.getEveryMove().includes(uci.slice(0, 4));
+        try {
+            const promotion = (uci[4] ?? "q") as PieceSymbol;
+            const result = board.tryMove(uci.slice(0, 2) as Square, uci.slice(2, 4) as Square, promotion);
+            if (!result.ok) {
+                // Moves that were never listed mean a shortened game is no longer legal, rather than a failure
+                if (!listed) return { invariant: "illegal", message: `${uci} is not a legal move`, ply };
+                return { invariant: "move", message: `Listed move ${uci} refused: ${result.message}`, ply };
+            }
+            const failure = checkInvariants(board, before);
+            if (failure) return { ...failure, ply };
+        } catch (e) {
+            const message = `${uci} threw ${e instanceof Error ? e.message : String(e)}`;
+            return { invariant: "exception", message, ply };
+        }
+    }
+    return null;
+}
+
+// Shorten a failing game while it still breaks the same invariant
+function minimise(fixture: Fixture): Fixture {
+    const reproduces = (start: string, moves: string[]) => replay(start, moves)?.invariant === fixture.invariant;
+    let { start, moves } = fixture;
+    moves = moves.slice(0, fixture.ply + 1);
+
+    // The smallest case starts from the position right before the failing move
+    const board = new FusionBoard();
+    board.import(start);
+    moves.slice(0, -1).forEach((uci) => playUci(board, uci));
+    if (reproduces(board.export(), moves.slice(-1))) {
+        start = board.export();
+        moves = moves.slice(-1);
+    }
+
+    // Otherwise remove pairs of moves, which keeps the same side to move for the rest of the game
+    for (let changed = true; changed; ) {
+        changed = false;
+        for (let i = 0; i + 2 < moves.length; i++) {
+            const shorter = [...moves.slice(0, i), ...moves.slice(i + 2)];
+            if (reproduces(start, shorter)) {
+                moves = shorter;
+                changed = true;
+            }
+        }
+    }
+    const failure = replay(start, moves) as Failure;
+    return { ...fixture, ...failure, start, moves };
+}
+
+function saveFixture(directory: string, fixture: Fixture): string {
+    if (!existsSync(directory)) mkdirSync(directory, { recursive: true });
+    const file = join(directory, `${fixture.invariant}-${fixture.seed ?? Date.now()}.json`);
+    writeFileSync(file, `${JSON.stringify(fixture, null, 4)}\n`);
+    return file;
+}
+
+function runReplay(path: string): number {
+    const files = statSync(path).isDirectory()
+        ? readdirSync(path)
+            .filter((file) => file.endsWith(".json"))
+            .map((file) => join(path, file))
+        : [path];
+    let failures = 0;
+    for (const file of files) {
+        const fixture: Fixture = JSON.parse(readFileSync(file, "utf8"));
+        const failure = replay(fixture.start, fixture.moves);
+        if (!failure) {
+            console.log(`PASS ${file}`);
+            continue;
+        }
+        failures++;
+        console.log(`FAIL ${file}: ${failure.invariant} at ply ${failure.ply + 1}, ${failure.message}`);
+    }
+    return failures;
+}
+
+function runFuzz(games: number, plies: number, seed: number, directory: string): number {
+    const openings = [DEFAULT_POSITION, ...PERFT_SUITE.map(({ position }) => position)];
+    let failures = 0;
+    for (let game = 0; game < games; game++) {
+        const next = random(seed + game);
+        const start = openings[game % openings.length];
+        const board = new FusionBoard();
+        board.import(start);
+        const moves: string[] = [];
+        // Games are played to the end or the ply limit, keeping every move so that a failure can be replayed
+        while (moves.length < plies && !board.isGameOver()) {
+            const legal = board.getEveryMove();
+            const uci = withPromotion(board, legal[Math.floor(next() * legal.length)], next);
+            moves.push(uci);
+            // Any refusal or exception is reported when the game is replayed below
+            try {
+                if (!playUci(board, uci)) break;
+            } catch {
+                break;
+            }
+        }
+        const failure = replay(start, moves);
+        if (!failure) continue;
+        failures++;
+        const fixture = minimise({ ...failure, start, moves, seed: seed + game });
+        const file = saveFixture(directory, fixture);
+        console.log(`FAIL game ${game + 1} (seed ${seed + game}): ${fixture.invariant}, ${fixture.message}`);
+        console.log(`    Minimised to ${fixture.moves.length} move(s), saved to ${file}`);
+    }
+    console.log(`${games - failures} of ${games} games passed every invariant.`);
+    return failures;
+}
+
+const args = process.argv.slice(2);
+const replayPath = option(args, "--replay");
+const failures = replayPath
+    ? runReplay(replayPath)
+    : runFuzz(
+        parseInt(option(args, "--games") ?? "100"),
+        parseInt(option(args, "--plies") ?? "200"),
+        parseInt(option(args, "--seed") ?? `${Date.now() % 1000000}`),
+        option(args, "--fixtures") ?? "fuzz-fixtures"
+    );
+process.exit(failures > 0 ? 1 : 0);
@@ -0,0 +1,43 @@
+/**
+ * Headless perft runner, checking FusionBoard move generation against the reference suite, after checking that the
+ * chess.js internals FusionBoard writes to are laid out as it expects.
+ * Usage: npm run perft [-- <max depth>]
+ * @author Lucas Bubner, 2023
+ */
+import FusionBoard from "../FusionBoard";
+import { checkChessInternals } from "./chessInternals";
+import { PERFT_SUITE } from "./perftSuite";
+
+const maxDepth = parseInt(process.argv[2]) || Infinity;
+let failures = 0;
+
+const problems = checkChessInternals();
+for (const problem of problems) console.log(`FAIL chess.js internals: ${problem}`);
+if (problems.length === 0) console.log("PASS chess.js internals");
+failures += problems.length;
+
+for (const { name, position, nodes, verified } of PERFT_SUITE) {
+    const board = new FusionBoard();
+    board.import(position);
+    nodes.slice(0, maxDepth).forEach((expected, index) => {
+        const depth = index + 1;
+        const started = Date.now();
+        const actual = board.perft(depth);
+        const elapsed = Date.now() - started;
+        if (actual === expected) {
+            // Counts that only came from FusionBoard itself are marked, as they guard against changes rather than bugs
+            const source = depth > verified ? ", regression only" : "";
+            console.log(`PASS ${name} (depth ${depth}${source}): ${actual} nodes in ${elapsed}ms`);
+            return;
+        }
+        failures++;
+        console.log(`FAIL ${name} (depth ${depth}): expected ${expected} nodes, got ${actual}`);
+        // Show the split by root move so the offending branch can be followed with divide()
+        for (const [move, count] of Object.entries(board.divide(depth))) {
+            console.log(`    ${move}: ${count}`);
+        }
+    });
+}
+
+console.log(failures > 0 ? `${failures} perft check(s) failed.` : "All perft checks passed.");
+process.exitCode = failures > 0 ? 1 : 0;
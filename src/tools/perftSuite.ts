@@ -0,0 +1,126 @@
+/**
+ * Reference positions for FusionBoard.perft(), as export strings with the expected leaf node count at each depth.
+ * Positions without any fusion agree with standard chess until a capture creates one.
+ *
+ * Only the first `verified` depths of each case were checked against something other than this implementation,
+ * either published perft results or a count by hand from the rules in the README. The deeper counts were produced by
+ * FusionBoard itself, so they only catch changes in move generation and cannot show that it was right to begin with.
+ * @author Lucas Bubner, 2023
+ */
+export type PerftCase = {
+    name: string;
+    position: string;
+    // Expected node counts, starting from depth 1
+    nodes: number[];
+    // How many of the counts, from depth 1, were checked independently of FusionBoard
+    verified: number;
+};
+
+export const PERFT_SUITE: PerftCase[] = [
+    {
+        // Published standard chess counts, as no capture can happen early enough to fuse a piece that then moves
+        name: "Initial position",
+        position: "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1",
+        nodes: [20, 400, 8902],
+        verified: 3,
+    },
+    {
+        // Standard chess gives 48 and 2039, fusions from the first capture onwards change the second ply
+        name: "Kiwipete",
+        position: "r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1",
+        nodes: [48, 1923, 92000],
+        verified: 1,
+    },
+    {
+        // Rxf4+ fuses a pawn onto the rook, which also covers g5 from the king, where standard chess gives 14 and 191
+        name: "Rook and pawn endgame",
+        position: "8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1",
+        nodes: [14, 190, 2770],
+        verified: 1,
+    },
+    {
+        // By hand: 12 pawn moves and 4 knight moves, with Be2 pinned and f1 and f2 covered by the queen on f4
+        name: "King moves beside a queen-knight fusion",
+        position: "rnb5/pp1k3p/2p1r1p1/8/5n2/8/PPPPB1PP/RNBQK1NR w - - 0 13 f4=q,",
+        nodes: [16, 808, 12254],
+        verified: 1,
+    },
+    {
+        // By hand: the king on d7 checks along the seventh rank, leaving only Kf8, Kg8 and Kf6
+        name: "King fusion movement",
+        position: "8/pp1K1k1p/6p1/2p5/3P4/8/PPP4P/RN4NR b - - 4 36 wK=r,",
+        nodes: [3, 73, 735],
+        verified: 1,
+    },
+    {
+        // By hand: the king on e1 checks up the e-file, answered by Kd8, Kf8, Kf7, Kf6 or Be6
+        name: "Check from a fused king",
+        position: "rBb5/pp2k2p/6p1/2p5/8/3P4/PPP4P/RN2K1NR b - - 11 27 b8=n,wK=r,",
+        nodes: [5, 165, 2614],
+        verified: 1,
+    },
+    {
+        // By hand: 3 king moves and 9 rook moves, as the king on f8 covers the f-file, stopping f1, f2 and castling
+        name: "Castling through a fused king's attack",
+        position: "5k2/8/8/8/8/8/8/4K2R w K - 0 1 bK=r,",
+        nodes: [12, 140, 2134],
+        verified: 1,
+    },
+    {
+        // By hand: 5 king moves and 9 rook moves, as castling would put the king on the covered g1
+        name: "Castling beside a fused king's attack",
+        position: "6k1/8/8/8/8/8/8/4K2R w K - 0 1 bK=r,",
+        nodes: [14, 172, 2600],
+        verified: 1,
+    },
+    {
+        // By hand: 5 steps and 12 queen moves, without e3 and a4 which the pawns and the queen on d1 cover
+        name: "King fused with a queen",
+        position: "4k3/8/8/8/8/8/3PPP2/3QKQ2 b - - 0 1 bK=q,",
+        nodes: [17, 271, 4046],
+        verified: 1,
+    },
+    {
+        // By hand: 27 queen moves, 8 knight moves and 5 king moves
+        name: "Queen fused with a knight",
+        position: "4k3/8/8/8/3Q4/8/8/4K3 w - - 0 1 d4=n,",
+        nodes: [40, 114, 3822],
+        verified: 1,
+    },
+    {
+        // The pawn may under-promote when pushed, but not when it jumps to the final rank as a knight
+        // By hand: 4 promotions, 6 knight moves and 4 king moves, as the pawn on f3 covers e2
+        name: "Promotion of a fused pawn",
+        position: "8/2P1k3/8/8/8/5p2/8/4K3 w - - 0 1 c7=n,",
+        nodes: [14, 85, 1007],
+        verified: 1,
+    },
+    {
+        // By hand: the push, the en passant capture, 8 knight moves and 5 king moves
+        name: "En passant with a fused pawn",
+        position: "4k3/8/8/2pP4/8/8/8/4K3 w - c6 0 2 d5=n,",
+        nodes: [15, 71, 1002],
+        verified: 1,
+    },
+    {
+        // First position of the Chess960 perft suite, with Shredder-FEN castling rights, matching its published counts
+        name: "Chess960 middlegame",
+        position: "bqnb1rkr/pp3ppp/3ppn2/2p5/5P2/P2P4/NPP1P1PP/BQ1BNRKR w HFhf - 2 9",
+        nodes: [21, 528, 12189],
+        verified: 3,
+    },
+    {
+        // By hand: 3 king moves, 19 rook moves and both castles, as the rook on a8 covers a2
+        name: "Chess960 castling beside the rook",
+        position: "r1k4r/8/8/8/8/8/8/RK5R w KQkq - 0 1",
+        nodes: [24, 498, 11516],
+        verified: 1,
+    },
+    {
+        // By hand: 5 king moves, 26 rook moves and both castles, with the king landing on the rook it castles with
+        name: "Chess960 castling with an inner rook",
+        position: "4k3/8/8/8/8/8/8/R1R1K2R w CK - 0 1",
+        nodes: [33, 142, 5218],
+        verified: 1,
+    },
+];
@@ -0,0 +1,43 @@
+/**
+ * Text protocol adapter, letting programs outside the browser play Fusion Chess over stdin and stdout.
+ * Commands are read one per line in the UCI style of FusionProtocol, such as:
+ *   position ffen <export string> moves e2e4 e7e5
+ *   legalmoves
+ *   go depth 4
+ * The protocol runs in a worker thread so that stop can be read from stdin while a search is running.
+ * Usage: npm run protocol
+ * @author Lucas Bubner, 2023
+ */
+import { createInterface } from "readline";
+import { isMainThread, parentPort, Worker, workerData } from "worker_threads";
+import FusionProtocol from "../FusionProtocol";
+
+if (isMainThread) {
+    // Set here as soon as stop or quit arrives, and cleared by the worker once it reads the command itself
+    const stopFlag = new Int32Array(new SharedArrayBuffer(4));
+    // Worker threads do not inherit tsx, so it is registered again before this file is loaded as the worker
+    const url = JSON.stringify(import.meta.url);
+    const bootstrap = `import("tsx/esm/api").then(({ register }) => { register(); return import(${url}); });`;
+    const worker = new Worker(bootstrap, { eval: true, execArgv: [], workerData: stopFlag });
+    worker.on("message", (line: string) => process.stdout.write(`${line}\n`));
+
+    const input = createInterface({ input: process.stdin, terminal: false });
+    input.on("line", (line) => {
+        const command = line.trim().split(/\s+/)[0];
+        if (command === "stop" || command === "quit") Atomics.store(stopFlag, 0, 1);
+        worker.postMessage(line);
+    });
+    // Commands already sent are still answered when stdin ends, as they are when piped in from a file
+    input.on("close", () => worker.postMessage("quit"));
+    worker.on("exit", () => input.close());
+} else {
+    const stopFlag = workerData as Int32Array;
+    const protocol = new FusionProtocol(
+        (line) => parentPort?.postMessage(line),
+        () => Atomics.load(stopFlag, 0) === 1
+    );
+    parentPort?.on("message", (line: string) => {
+        if (line.trim() === "stop") Atomics.store(stopFlag, 0, 0);
+        if (!protocol.handle(line)) parentPort?.close();
+    });
+}
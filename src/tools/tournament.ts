@@ -0,0 +1,189 @@
+/**
+ * Self-play tournament runner, playing games between two bots on FusionBoard with alternating colours.
+ * Every game is written as Fusion PGN, and a crosstable with the Elo difference is printed at the end.
+ * Games where movePiece() refuses a move that getEveryMove() listed are flagged, as they point to a rule bug.
+ * Usage: npm run tournament -- <bot> <bot> [--games N] [--openings file] [--max-moves N] [--pgn file] [--go options]
+ * Bots are given as spec strings, see tools/bots.ts. Openings are export strings, one per line, each of which
+ * is played twice so that both bots get each side.
+ * @author Lucas Bubner, 2023
+ */
+import { appendFileSync, readFileSync, writeFileSync } from "fs";
+import { Color, DEFAULT_POSITION, PieceSymbol, Square } from "chess.js/src/chess";
+import FusionBoard from "../FusionBoard";
+import { Bot, createBot } from "./bots";
+
+type GameRecord = {
+    white: Bot;
+    black: Bot;
+    // The winning colour, null for a draw, or undefined if the game was abandoned
+    winner: Color | null | undefined;
+    termination: string;
+    flagged?: string;
+};
+
+type Standing = { wins: number; draws: number; losses: number };
+
+function option(args: string[], name: string): string | undefined {
+    const index = args.indexOf(name);
+    if (index === -1) return undefined;
+    const [, value] = args.splice(index, 2);
+    return value;
+}
+
+async function playGame(white: Bot, black: Bot, start: string, maxMoves: number): Promise<[GameRecord, FusionBoard]> {
+    const board = new FusionBoard();
+    board.import(start);
+    const moves: string[] = [];
+    const record: GameRecord = { white, black, winner: undefined, termination: "" };
+    await white.newGame();
+    await black.newGame();
+
+    while (!board.isGameOver()) {
+        if (moves.length >= maxMoves * 2) {
+            record.winner = null;
+            record.termination = `move cap of ${maxMoves} reached`;
+            return [record, board];
+        }
+        const colour = board.turn();
+        const bot = colour === "w" ? white : black;
+        const listed = board.getEveryMove();
+        let uci: string | null;
+        try {
+            uci = await bot.move(board, start, moves);
+        } catch (e) {
+            uci = null;
+            console.log(`    ${bot.name} failed to move: ${e instanceof Error ? e.message : String(e)}`);
+        }
+        // A bot that cannot give a legal move forfeits the game
+        const promotion = (uci?.[4] ?? "q") as PieceSymbol;
+        const result = uci ? board.tryMove(uci.slice(0, 2) as Square, uci.slice(2, 4) as Square, promotion) : null;
+        if (uci && result?.ok) {
+            moves.push(uci);
+            continue;
+        }
+        record.winner = colour === "w" ? "b" : "w";
+        record.termination = `${bot.name} forfeits with ${uci ? `illegal move ${uci}` : "no move"}`;
+        // The board disagreeing with its own move list is a rule bug, so the game is not counted
+        if (uci && result && !result.ok && listed.includes(uci.slice(0, 4))) {
+            record.winner = undefined;
+            record.termination = `abandoned, movePiece refused listed move ${uci}`;
+            record.flagged = `${uci} refused (${result.reason}: ${result.message}) after ${board.export()}`;
+        }
+        return [record, board];
+    }
+
+    const result = board.getResult();
+    record.winner = result?.winner ?? null;
+    record.termination = result?.reason ?? "unknown";
+    return [record, board];
+}
+
+// The PGN result of a game, where undefined is an abandoned game and null a draw
+function resultToken(winner: GameRecord["winner"]): string {
+    return winner === undefined ? "*" : winner === null ? "1/2-1/2" : winner === "w" ? "1-0" : "0-1";
+}
+
+function formatResult({ winner, termination }: GameRecord): string {
+    return `${resultToken(winner)} (${termination})`;
+}
+
+// The Elo difference that gives the expected score, as a fraction of the points available
+function eloFromScore(score: number): number {
+    if (score <= 0) return -Infinity;
+    if (score >= 1) return Infinity;
+    return -400 * Math.log10(1 / score - 1);
+}
+
+function formatElo(elo: number): string {
+    if (!Number.isFinite(elo)) return elo > 0 ? "+inf" : "-inf";
+    return `${elo >= 0 ? "+" : ""}${elo.toFixed(0)}`;
+}
+
+// Elo difference of the first bot with the margin of a 95% confidence interval
+function eloDifference({ wins, draws, losses }: Standing): string {
+    const games = wins + draws + losses;
+    if (games === 0) return "no games counted";
+    const score = (wins + draws / 2) / games;
+    const variance = (wins * (1 - score) ** 2 + draws * (0.5 - score) ** 2 + losses * score ** 2) / games;
+    const margin = 1.96 * Math.sqrt(variance / games);
+    const low = eloFromScore(score - margin);
+    const high = eloFromScore(score + margin);
+    const spread = Number.isFinite(low) && Number.isFinite(high) ? ` ± ${((high - low) / 2).toFixed(0)}` : "";
+    return `${formatElo(eloFromScore(score))}${spread}`;
+}
+
+async function main() {
+    const args = process.argv.slice(2);
+    const games = parseInt(option(args, "--games") ?? "10");
+    const maxMoves = parseInt(option(args, "--max-moves") ?? "150");
+    const pgnFile = option(args, "--pgn") ?? "tournament.pgn";
+    const go = option(args, "--go");
+    const openingsFile = option(args, "--openings");
+    if (args.length !== 2 || !(games > 0) || !(maxMoves > 0)) {
+        console.log(
+            "Usage: npm run tournament -- <bot> <bot> [--games N] [--openings file] [--max-moves N] [--pgn file] " +
+                "[--go options]"
+        );
+        process.exit(1);
+    }
+    const openings = openingsFile
+        ? readFileSync(openingsFile, "utf8")
+            .split("\n")
+            .map((line) => line.trim())
+            .filter((line) => line && !line.startsWith("#"))
+        : [DEFAULT_POSITION];
+
+    const bots = [await createBot(args[0], go), await createBot(args[1], go)];
+    // Standings are kept from the point of view of the first bot
+    const standing: Standing = { wins: 0, draws: 0, losses: 0 };
+    const flagged: string[] = [];
+    writeFileSync(pgnFile, "");
+
+    for (let round = 0; round < games; round++) {
+        const [white, black] = round % 2 === 0 ? bots : [bots[1], bots[0]];
+        const start = openings[Math.floor(round / 2) % openings.length];
+        const [record, board] = await playGame(white, black, start, maxMoves);
+
+        board.header("Event", "Fusion Chess tournament", "Round", `${round + 1}`);
+        board.header("White", white.name, "Black", black.name, "Termination", record.termination);
+        // Games stopped by the runner, by the move cap or a forfeit, have no result on the board
+        if (!board.getResult()) board.header("Result", resultToken(record.winner));
+        appendFileSync(pgnFile, `${board.pgn()}\n\n`);
+
+        console.log(`Game ${round + 1}: ${white.name} vs ${black.name}, ${formatResult(record)}`);
+        if (record.flagged) {
+            flagged.push(`Game ${round + 1}: ${record.flagged}`);
+            continue;
+        }
+        if (record.winner === null) standing.draws++;
+        else if ((record.winner === "w") === (white === bots[0])) standing.wins++;
+        else standing.losses++;
+    }
+    bots.forEach((bot) => bot.close());
+
+    const counted = standing.wins + standing.draws + standing.losses;
+    const width = Math.max(...bots.map((bot) => bot.name.length), 3);
+    console.log();
+    console.log(`${"Bot".padEnd(width)}  Games  Wins  Draws  Losses  Score`);
+    bots.forEach((bot, index) => {
+        const { wins, draws, losses } = standing;
+        const [won, lost] = index === 0 ? [wins, losses] : [losses, wins];
+        const score = counted > 0 ? (((won + draws / 2) / counted) * 100).toFixed(1) : "-";
+        console.log(
+            `${bot.name.padEnd(width)}  ${`${counted}`.padStart(5)}  ${`${won}`.padStart(4)}  ` +
+                `${`${draws}`.padStart(5)}  ${`${lost}`.padStart(6)}  ${score.padStart(5)}%`
+        );
+    });
+    console.log(`Elo difference of ${bots[0].name}: ${eloDifference(standing)}`);
+    console.log(`Games written to ${pgnFile}`);
+    if (flagged.length > 0) {
+        console.log(`\n${flagged.length} game(s) flagged where movePiece refused a move listed by getEveryMove:`);
+        flagged.forEach((flag) => console.log(`    ${flag}`));
+        process.exit(1);
+    }
+}
+
+main().catch((e) => {
+    console.log(`Error: ${e instanceof Error ? e.message : String(e)}`);
+    process.exit(1);
+});